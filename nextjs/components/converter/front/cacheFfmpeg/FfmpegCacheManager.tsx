@@ -1,14 +1,19 @@
-// Purpose: UI widget that shows whether FFmpeg core is cached and
-// provides actions to pre-cache (download) or clear the cache.
+// Purpose: UI widget that shows whether each FFmpeg core variant (single-/multi-threaded) is cached
+// and which one this page can run, and provides actions to pre-cache (download) or clear the cache.
 // Uses Cache Storage API via helpers from ffmpegCache.ts.
 
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { isCoreCached, cacheCoreAssets, clearCoreCache } from "./ffmpegCache";
+import { getCoreCacheStatus, cacheCoreAssets, clearCoreCache } from "./ffmpegCache";
+import { CORE_VARIANT_LABELS, CoreVariant, detectCoreVariant } from "./ffmpegCoreConfig";
+
+const VARIANTS: CoreVariant[] = ["st", "mt"];
 
 export default function FfmpegCacheManager({ className }: { className?: string }) {
-  const [cached, setCached] = useState<boolean>(false);
+  const [cachedVariants, setCachedVariants] = useState<Record<CoreVariant, boolean>>({ st: false, mt: false });
+  // Resolved after mount: crossOriginIsolated is only known in the browser
+  const [runtimeVariant, setRuntimeVariant] = useState<CoreVariant>("st");
   const [busy, setBusy] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -17,8 +22,11 @@ export default function FfmpegCacheManager({ className }: { className?: string }
     let mounted = true;
     (async () => {
       try {
-        const ok = await isCoreCached();
-        if (mounted) setCached(ok);
+        const status = await getCoreCacheStatus();
+        if (mounted) {
+          setCachedVariants(status);
+          setRuntimeVariant(detectCoreVariant());
+        }
       } catch (e) {
         console.error(e);
       }
@@ -28,13 +36,15 @@ export default function FfmpegCacheManager({ className }: { className?: string }
     };
   }, []);
 
-  // Action: Pre-cache (download) ffmpeg core into Cache Storage
-  async function handlePrecache() {
+  const cached = cachedVariants[runtimeVariant];
+
+  // Action: Pre-cache (download) an ffmpeg core variant into Cache Storage, by default the one this page runs
+  async function handlePrecache(variant: CoreVariant = runtimeVariant) {
     setBusy(true);
     setError(null);
     try {
-      await cacheCoreAssets();
-      setCached(true);
+      await cacheCoreAssets(undefined, variant);
+      setCachedVariants((v) => ({ ...v, [variant]: true }));
     } catch (e: any) {
       console.error(e);
       setError(e?.message || "Failed to cache FFmpeg core");
@@ -49,7 +59,7 @@ export default function FfmpegCacheManager({ className }: { className?: string }
     setError(null);
     try {
       await clearCoreCache();
-      setCached(false);
+      setCachedVariants({ st: false, mt: false });
     } catch (e: any) {
       console.error(e);
       setError(e?.message || "Failed to clear cache");
@@ -72,6 +82,33 @@ export default function FfmpegCacheManager({ className }: { className?: string }
         <span className="text-xs text-gray-500">Status: <b>{cached ? "cached" : "not cached"}</b></span>
       </div>
 
+      {/* Per-variant status */}
+      <ul className="mt-3 text-xs space-y-1">
+        {VARIANTS.map((variant) => (
+          <li key={variant} className="flex items-center justify-between gap-2">
+            <span>
+              {CORE_VARIANT_LABELS[variant]}
+              {variant === runtimeVariant && <span className="ml-1 text-gray-500">(used on this page)</span>}
+            </span>
+            <span className="flex items-center gap-2">
+              <span className={cachedVariants[variant] ? "text-green-600" : "text-gray-500"}>
+                {cachedVariants[variant] ? "cached" : "not cached"}
+              </span>
+              {!cachedVariants[variant] && variant !== runtimeVariant && (
+                <button onClick={() => handlePrecache(variant)} disabled={busy} className="underline disabled:opacity-50">
+                  Preload
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {runtimeVariant === "st" && (
+        <p className="mt-1 text-xs text-gray-500">
+          The multi-threaded core needs a cross-origin isolated page (COOP/COEP headers).
+        </p>
+      )}
+
       {/* Quick steps */}
       <ol className="mt-3 text-xs text-gray-600 space-y-1 list-decimal list-inside">
         <li>Check status above.</li>
@@ -82,10 +119,10 @@ export default function FfmpegCacheManager({ className }: { className?: string }
       {/* Actions */}
       <div className="mt-3 flex gap-2">
         <button
-          onClick={handlePrecache}
+          onClick={() => handlePrecache()}
           disabled={busy}
           className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 disabled:opacity-50 text-white text-sm py-2 px-3 rounded"
-          aria-label="Preload FFmpeg core into cache"
+          aria-label={`Preload the ${CORE_VARIANT_LABELS[runtimeVariant]} FFmpeg core into cache`}
         >
           {/* Download icon */}
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4"><path d="M12 3a1 1 0 011 1v8.586l2.293-2.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 111.414-1.414L11 12.586V4a1 1 0 011-1z"/><path d="M5 20a1 1 0 110-2h14a1 1 0 110 2H5z"/></svg>
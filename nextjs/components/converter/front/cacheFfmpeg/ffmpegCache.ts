@@ -1,10 +1,11 @@
 // Purpose: A tiny cache manager around the Cache Storage API for ffmpeg core assets.
 // It provides: status check, pre-cache (warm), clear cache, and retrieval as blob URLs.
+// Both core variants (single- and multi-threaded) live in the same bucket, keyed by their CDN URLs.
 // This does NOT register a Service Worker; it's a simple runtime cache you can control from UI.
 
 "use client";
 
-import { CORE_JS_URL, CORE_WASM_URL, FFMPEG_CACHE_NAME } from "./ffmpegCoreConfig";
+import { CORE_ASSETS, CoreAssetURLs, CoreVariant, detectCoreVariant, FFMPEG_CACHE_NAME } from "./ffmpegCoreConfig";
 
 // Helper to safely access window.caches only in the browser.
 function getCaches(): CacheStorage | null {
@@ -13,58 +14,75 @@ function getCaches(): CacheStorage | null {
   return window.caches;
 }
 
-// Check if both JS and WASM are present in our cache bucket.
-export async function isCoreCached(): Promise<boolean> {
+// Every asset URL of a variant: JS and WASM, plus the pthread worker for "mt".
+function assetURLs(variant: CoreVariant): string[] {
+  const { coreURL, wasmURL, workerURL } = CORE_ASSETS[variant];
+  return workerURL ? [coreURL, wasmURL, workerURL] : [coreURL, wasmURL];
+}
+
+function fileName(url: string): string {
+  return url.slice(url.lastIndexOf("/") + 1);
+}
+
+// Check if every asset of a variant is present in our cache bucket.
+// Defaults to the variant this page can run.
+export async function isCoreCached(variant: CoreVariant = detectCoreVariant()): Promise<boolean> {
   const caches = getCaches();
   if (!caches) return false;
   const cache = await caches.open(FFMPEG_CACHE_NAME);
-  const [jsRes, wasmRes] = await Promise.all([
-    cache.match(CORE_JS_URL),
-    cache.match(CORE_WASM_URL),
-  ]);
-  return !!(jsRes && wasmRes);
+  const matches = await Promise.all(assetURLs(variant).map((url) => cache.match(url)));
+  return matches.every(Boolean);
+}
+
+// Cache status of both variants, for UI.
+export async function getCoreCacheStatus(): Promise<Record<CoreVariant, boolean>> {
+  const [st, mt] = await Promise.all([isCoreCached("st"), isCoreCached("mt")]);
+  return { st, mt };
 }
 
 // Preload and store core assets into the cache bucket.
-export async function cacheCoreAssets(signal?: AbortSignal): Promise<void> {
+// Defaults to the variant this page can run.
+export async function cacheCoreAssets(signal?: AbortSignal, variant: CoreVariant = detectCoreVariant()): Promise<void> {
   const caches = getCaches();
   if (!caches) throw new Error("Cache Storage API is not available in this environment");
   const cache = await caches.open(FFMPEG_CACHE_NAME);
 
   // Fetch with no-cache to ensure a fresh copy if CDN updates, but we still store the response in our cache.
-  const [js, wasm] = await Promise.all([
-    fetch(CORE_JS_URL, { cache: "no-store", signal }),
-    fetch(CORE_WASM_URL, { cache: "no-store", signal }),
-  ]);
-  if (!js.ok) throw new Error(`Failed to fetch ffmpeg-core.js: ${js.status}`);
-  if (!wasm.ok) throw new Error(`Failed to fetch ffmpeg-core.wasm: ${wasm.status}`);
+  const urls = assetURLs(variant);
+  const responses = await Promise.all(urls.map((url) => fetch(url, { cache: "no-store", signal })));
+  responses.forEach((res, i) => {
+    if (!res.ok) throw new Error(`Failed to fetch ${fileName(urls[i])}: ${res.status}`);
+  });
 
-  await Promise.all([
-    cache.put(CORE_JS_URL, js.clone()),
-    cache.put(CORE_WASM_URL, wasm.clone()),
-  ]);
+  await Promise.all(responses.map((res, i) => cache.put(urls[i], res.clone())));
 }
 
-// Clear our dedicated cache bucket.
+// Clear our dedicated cache bucket (both variants).
 export async function clearCoreCache(): Promise<void> {
   const caches = getCaches();
   if (!caches) return; // silently ignore on non-browser
   await caches.delete(FFMPEG_CACHE_NAME);
 }
 
-// Read cached responses and convert to blob URLs, to be used with FFmpeg.load({ coreURL, wasmURL }).
-export async function getCoreBlobURLsFromCache(): Promise<{ coreURL: string; wasmURL: string } | null> {
+// Read cached responses and convert to blob URLs, to be used with FFmpeg.load({ coreURL, wasmURL, workerURL }).
+// Without a variant: the multi-threaded core when the page can run it and it is cached, else the
+// single-threaded one. The result says which variant the URLs belong to.
+export async function getCoreBlobURLsFromCache(variant?: CoreVariant): Promise<(CoreAssetURLs & { variant: CoreVariant }) | null> {
+  if (!variant) {
+    if (detectCoreVariant() === "mt") {
+      const mt = await getCoreBlobURLsFromCache("mt");
+      if (mt) return mt;
+    }
+    return getCoreBlobURLsFromCache("st");
+  }
+
   const caches = getCaches();
   if (!caches) return null;
   const cache = await caches.open(FFMPEG_CACHE_NAME);
-  const [jsRes, wasmRes] = await Promise.all([
-    cache.match(CORE_JS_URL),
-    cache.match(CORE_WASM_URL),
-  ]);
-  if (!jsRes || !wasmRes) return null;
+  const responses = await Promise.all(assetURLs(variant).map((url) => cache.match(url)));
+  if (responses.some((res) => !res)) return null;
 
-  const [jsBlob, wasmBlob] = await Promise.all([jsRes.blob(), wasmRes.blob()]);
-  const coreURL = URL.createObjectURL(jsBlob);
-  const wasmURL = URL.createObjectURL(wasmBlob);
-  return { coreURL, wasmURL };
+  const blobs = await Promise.all(responses.map((res) => res!.blob()));
+  const [coreURL, wasmURL, workerURL] = blobs.map((blob) => URL.createObjectURL(blob));
+  return { variant, coreURL, wasmURL, workerURL };
 }
@@ -1,15 +1,46 @@
 // Purpose: Central config for ffmpeg core assets and cache naming.
-// We use the public UMD build of @ffmpeg/core that matches @ffmpeg/ffmpeg 0.12.x.
+// We use the public UMD builds of @ffmpeg/core (single-threaded) and @ffmpeg/core-mt (multi-threaded)
+// that match @ffmpeg/ffmpeg 0.12.x.
 // These files will be precached via the Cache Storage API and optionally served as blob URLs.
 
 export const FFMPEG_CORE_VERSION = "0.12.10"; // compatible with @ffmpeg/ffmpeg ^0.12
 
-// Base URL of the UMD build on a public CDN. You can replace this with your own hosting later.
+// "st" = @ffmpeg/core, runs anywhere; "mt" = @ffmpeg/core-mt, needs SharedArrayBuffer (see detectCoreVariant)
+export type CoreVariant = "st" | "mt";
+
+export interface CoreAssetURLs {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string; // pthread worker script, multi-threaded core only
+}
+
+// Base URLs of the UMD builds on a public CDN. You can replace these with your own hosting later.
 export const FFMPEG_CORE_BASE = `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`;
+export const FFMPEG_CORE_MT_BASE = `https://cdn.jsdelivr.net/npm/@ffmpeg/core-mt@${FFMPEG_CORE_VERSION}/dist/umd`;
 
 // Full URLs for core JS and WASM assets.
 export const CORE_JS_URL = `${FFMPEG_CORE_BASE}/ffmpeg-core.js`;
 export const CORE_WASM_URL = `${FFMPEG_CORE_BASE}/ffmpeg-core.wasm`;
+export const CORE_MT_JS_URL = `${FFMPEG_CORE_MT_BASE}/ffmpeg-core.js`;
+export const CORE_MT_WASM_URL = `${FFMPEG_CORE_MT_BASE}/ffmpeg-core.wasm`;
+export const CORE_MT_WORKER_URL = `${FFMPEG_CORE_MT_BASE}/ffmpeg-core.worker.js`;
+
+export const CORE_ASSETS: Record<CoreVariant, CoreAssetURLs> = {
+  st: { coreURL: CORE_JS_URL, wasmURL: CORE_WASM_URL },
+  mt: { coreURL: CORE_MT_JS_URL, wasmURL: CORE_MT_WASM_URL, workerURL: CORE_MT_WORKER_URL },
+};
+
+export const CORE_VARIANT_LABELS: Record<CoreVariant, string> = {
+  st: "single-threaded",
+  mt: "multi-threaded",
+};
 
 // Cache Storage bucket name we use for these assets.
 export const FFMPEG_CACHE_NAME = "ffmpeg-core-cache-v1";
+
+// The multi-threaded core shares memory between threads, which browsers only allow on
+// cross-origin isolated pages (COOP/COEP headers, see next.config.ts). Works in workers too.
+export function detectCoreVariant(): CoreVariant {
+  const isolated = typeof crossOriginIsolated !== "undefined" && crossOriginIsolated;
+  return isolated && typeof SharedArrayBuffer !== "undefined" ? "mt" : "st";
+}
@@ -1,19 +1,27 @@
 "use client";
 
 // Purpose: UI to control worker-based processing of a recorded video.
-// Integrates with useRecorder to get the last recorded blob, and with useFfmpegWorker
+// Integrates with useRecorder to get the selected take, and with useFfmpegWorker
 // to offload processing into a dedicated Web Worker. Shows progress/log/output and provides
-// a few parameters as simple inputs.
+// a few parameters as simple inputs. Requests are queued in the worker; the Jobs list shows
+// each queued/running/finished job and lets you cancel one. Once the core is loaded the selected
+// take is probed, and its duration/resolution bound the parameter inputs.
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type Hls from "hls.js";
 import { useRecorder } from "../../../recorder/context";
-import { useFfmpegWorker } from "./useFfmpegWorker";
+import { JobInfo, UseFfmpegWorkerApi, useFfmpegWorker } from "./useFfmpegWorker";
+import type { GifDither, MediaInfo } from "./workerMessages";
+import { CORE_VARIANT_LABELS } from "../cacheFfmpeg";
 
 export default function FfmpegWorkerPanel({ className }: { className?: string }) {
   const rec = useRecorder();
   const worker = useFfmpegWorker();
 
-  const hasBlob = !!rec.blob;
+  // Any take from the recorder library can be processed; defaults to the selected (latest) one
+  const selectedTake = rec.takes.find((t) => t.id === rec.selectedTakeId) ?? null;
+  const inputBlob = selectedTake?.blob ?? rec.blob;
+  const hasBlob = !!inputBlob;
   const [duration, setDuration] = useState<number>(10);
   const [start, setStart] = useState<number>(0);
   const [height, setHeight] = useState<number>(720);
@@ -22,16 +30,43 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
   const [preset, setPreset] = useState<string>("veryfast");
   const [thumbAt, setThumbAt] = useState<number>(1);
   const [thumbWidth, setThumbWidth] = useState<number>(1280);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
 
-  const canWork = hasBlob && (worker.status === "ready" || worker.status === "idle" || worker.status === "error" || worker.status === "canceled");
+  // Probe the input once the core is there (probing never triggers a core download by itself)
+  const { loaded, probe } = worker;
+  useEffect(() => {
+    setMediaInfo(null);
+    if (!inputBlob || !loaded) return;
+    let active = true;
+    probe(inputBlob, { priority: 1 })
+      .then((info) => { if (active) setMediaInfo(info); })
+      .catch(() => void 0);
+    return () => { active = false; };
+  }, [inputBlob, loaded, probe]);
+
+  // Input limits: from the probed file when known, otherwise generic bounds
+  const limits = useMemo(() => {
+    const video = mediaInfo?.streams.find((st) => st.type === "video");
+    const total = mediaInfo?.duration;
+    return {
+      start: total !== undefined ? Math.max(0, Math.floor(total - 1)) : 600,
+      duration: total !== undefined ? Math.max(1, Math.min(120, Math.ceil(total - start))) : 120,
+      thumbAt: total !== undefined ? Math.max(0, Math.floor(total)) : duration,
+      height: video?.height ?? 1080,
+      width: video?.width ?? 1920,
+    };
+  }, [mediaInfo, start, duration]);
+
+  // Jobs are queued in the worker, so new requests are accepted even while another one runs
+  const canWork = hasBlob && worker.status !== "loading";
   const isBusy = worker.status === "loading" || worker.status === "working";
 
   const recordedInfo = useMemo(() => {
     return {
-      mime: rec.mimeType || rec.blob?.type || "",
-      size: rec.blob ? prettyBytes(rec.blob.size) : "—",
+      mime: selectedTake?.mimeType || inputBlob?.type || rec.mimeType || "",
+      size: inputBlob ? prettyBytes(inputBlob.size) : "—",
     };
-  }, [rec.mimeType, rec.blob]);
+  }, [selectedTake, inputBlob, rec.mimeType]);
 
   return (
     <section className={`rounded-lg border border-gray-200 dark:border-gray-800 bg-white/70 dark:bg-zinc-900/60 shadow-sm p-4 ${className || ""}`}>
@@ -42,7 +77,10 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5"><path d="M4 5a2 2 0 00-2 2v10a2 2 0 002 2h9a2 2 0 002-2v-1.382l3.553 1.777A1 1 0 0020 16.5v-7a1 1 0 00-1.447-.894L15 10.382V9a2 2 0 00-2-2H4z"/></svg>
           Video Processing (Web Worker + FFmpeg)
         </h3>
-        <div className="text-xs text-gray-600">Worker status: <b>{worker.status}</b></div>
+        <div className="text-xs text-gray-600">
+          Worker status: <b>{worker.status}</b>
+          {worker.coreVariant && <> · {CORE_VARIANT_LABELS[worker.coreVariant]} core</>}
+        </div>
       </div>
 
       {/* How to use */}
@@ -110,27 +148,44 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
       <div className="mt-4 rounded-md border border-gray-200 dark:border-gray-800 p-3">
         <div className="text-sm font-medium mb-2">Parameters</div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl">
-          <LabeledInput label="Preview duration (sec)" value={duration} onChange={setDuration} min={1} max={120} />
-          <LabeledInput label="Start offset (sec)" value={start} onChange={setStart} min={0} max={600} />
-          <LabeledInput label="Preview height (px)" value={height} onChange={setHeight} min={144} max={1080} />
+          <LabeledInput label="Preview duration (sec)" value={duration} onChange={setDuration} min={1} max={limits.duration} />
+          <LabeledInput label="Start offset (sec)" value={start} onChange={setStart} min={0} max={limits.start} />
+          <LabeledInput label="Preview height (px)" value={height} onChange={setHeight} min={144} max={limits.height} />
           <LabeledInput label="CRF (MP4 quality)" value={crf} onChange={setCrf} min={18} max={35} />
           <LabeledSelect label="Preset (MP4 speed)" value={preset} onChange={setPreset} options={["ultrafast","superfast","veryfast","faster","fast","medium","slow","slower","veryslow"]} />
           <LabeledCheckbox label="Convert to MP4" checked={toMp4} onChange={setToMp4} />
-          <LabeledInput label="Snapshot at (sec)" value={thumbAt} onChange={setThumbAt} min={0} max={duration} />
-          <LabeledInput label="Snapshot width (px)" value={thumbWidth} onChange={setThumbWidth} min={64} max={1920} />
+          <LabeledInput label="Snapshot at (sec)" value={thumbAt} onChange={setThumbAt} min={0} max={limits.thumbAt} />
+          <LabeledInput label="Snapshot width (px)" value={thumbWidth} onChange={setThumbWidth} min={64} max={limits.width} />
         </div>
       </div>
 
       {/* Recorded file info */}
       <div className="mt-4 text-sm text-gray-700">
+        {rec.takes.length > 0 && (
+          <label className="flex items-center gap-2 text-xs mb-2">
+            <span className="text-gray-600 dark:text-gray-300">Take to process</span>
+            <select
+              value={rec.selectedTakeId ?? ""}
+              onChange={(e) => rec.selectTake(e.target.value || null)}
+              className="border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            >
+              <option value="" disabled>Select a take</option>
+              {rec.takes.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
         <div>Recorded file: mime={recordedInfo.mime || "?"}, size={recordedInfo.size}</div>
+        {mediaInfo && <MediaInfoSummary info={mediaInfo} />}
+        {hasBlob && !worker.loaded && <div className="text-xs text-gray-500">Load FFmpeg to inspect streams and duration.</div>}
         {!hasBlob && <div className="text-xs text-gray-500">Record a video first in the block above.</div>}
       </div>
 
       {/* Actions */}
       <div className="mt-3 flex gap-2 flex-wrap">
         <button
-          onClick={() => rec.blob && worker.makePreview(rec.blob, { duration, start, scaleHeight: height, toMp4, crf, preset: preset as any })}
+          onClick={() => inputBlob && worker.makePreview(inputBlob, { duration, start, scaleHeight: height, toMp4, crf, preset: preset as any }).catch(() => void 0)}
           disabled={!canWork || !hasBlob}
           className="inline-flex items-center gap-2 bg-green-600 hover:bg-green-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-400 disabled:opacity-50 text-white text-sm py-2 px-3 rounded"
         >
@@ -140,7 +195,7 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
         </button>
 
         <button
-          onClick={() => rec.blob && worker.makeSnapshot(rec.blob, { at: thumbAt, scaleWidth: thumbWidth })}
+          onClick={() => inputBlob && worker.makeSnapshot(inputBlob, { at: thumbAt, scaleWidth: thumbWidth }).catch(() => void 0)}
           disabled={!canWork || !hasBlob}
           className="inline-flex items-center gap-2 bg-purple-600 hover:bg-purple-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 text-white text-sm py-2 px-3 rounded"
         >
@@ -150,6 +205,22 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
         </button>
       </div>
 
+      <AnimationSection worker={worker} inputBlob={inputBlob} canWork={canWork} maxStart={limits.start} maxWidth={limits.width} />
+
+      <HlsSection worker={worker} inputBlob={inputBlob} canWork={canWork} />
+
+      {/* Jobs */}
+      {worker.jobs.length > 0 && (
+        <div className="mt-4 rounded-md border border-gray-200 dark:border-gray-800 p-3">
+          <div className="text-sm font-medium mb-2">Jobs</div>
+          <ul className="space-y-1">
+            {[...worker.jobs].reverse().map((j) => (
+              <JobRow key={j.id} job={j} onCancel={() => worker.cancel(j.id)} getLog={() => worker.getJobLog(j.id)} />
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Outputs */}
       <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="rounded-md border border-gray-200 dark:border-gray-800 p-3">
@@ -173,6 +244,228 @@ export default function FfmpegWorkerPanel({ className }: { className?: string })
   );
 }
 
+// Short looping clip for chat tools where MP4 doesn't autoplay
+function AnimationSection({ worker, inputBlob, canWork, maxStart, maxWidth }: { worker: UseFfmpegWorkerApi; inputBlob: Blob | null; canWork: boolean; maxStart: number; maxWidth: number }) {
+  const [format, setFormat] = useState<string>("gif");
+  const [start, setStart] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(5);
+  const [fps, setFps] = useState<number>(12);
+  const [width, setWidth] = useState<number>(480);
+  const [loop, setLoop] = useState<number>(0);
+  const [dither, setDither] = useState<string>("sierra2_4a");
+
+  const run = () => {
+    if (!inputBlob) return;
+    worker.makeAnimation(inputBlob, {
+      format: format === "webp" ? "webp" : "gif",
+      start,
+      duration,
+      fps,
+      width,
+      loop,
+      dither: dither as GifDither,
+    }).catch(() => void 0);
+  };
+
+  return (
+    <div className="mt-4 rounded-md border border-gray-200 dark:border-gray-800 p-3">
+      <div className="text-sm font-medium mb-2">Animated GIF / WebP</div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl">
+        <LabeledSelect label="Format" value={format} onChange={setFormat} options={["gif", "webp"]} />
+        <LabeledInput label="Clip start (sec)" value={start} onChange={setStart} min={0} max={maxStart} />
+        <LabeledInput label="Clip length (sec)" value={duration} onChange={setDuration} min={1} max={30} />
+        <LabeledInput label="Frame rate (fps)" value={fps} onChange={setFps} min={1} max={30} />
+        <LabeledInput label="Width (px)" value={width} onChange={setWidth} min={64} max={maxWidth} />
+        <LabeledInput label="Plays (0 = loop forever)" value={loop} onChange={setLoop} min={0} max={100} />
+        {format === "gif" && (
+          <LabeledSelect label="Dithering" value={dither} onChange={setDither} options={["sierra2_4a", "sierra2", "floyd_steinberg", "bayer", "heckbert", "none"]} />
+        )}
+      </div>
+      <button
+        onClick={run}
+        disabled={!canWork}
+        className="mt-3 inline-flex items-center gap-2 bg-pink-600 hover:bg-pink-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-pink-400 disabled:opacity-50 text-white text-sm py-2 px-3 rounded"
+      >
+        Export {format.toUpperCase()}
+      </button>
+      {worker.animationUrl && (
+        <div className="mt-3">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={worker.animationUrl} alt="animated clip" className="max-w-full rounded border border-gray-200 dark:border-gray-800" />
+          <a href={worker.animationUrl} download={`clip.${format}`} className="text-xs text-emerald-700 hover:underline">Download</a>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Adaptive-streaming package (default 360p/720p ladder) with every file downloadable
+function HlsSection({ worker, inputBlob, canWork }: { worker: UseFfmpegWorkerApi; inputBlob: Blob | null; canWork: boolean }) {
+  const [segmentType, setSegmentType] = useState<string>("ts");
+  const pkg = worker.hlsPackage;
+
+  return (
+    <div className="mt-4 rounded-md border border-gray-200 dark:border-gray-800 p-3">
+      <div className="text-sm font-medium mb-2">HLS package</div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl">
+        <LabeledSelect label="Segment type" value={segmentType} onChange={setSegmentType} options={["ts", "fmp4"]} />
+      </div>
+      <button
+        onClick={() => inputBlob && worker.packageHls(inputBlob, { segmentType: segmentType === "fmp4" ? "fmp4" : "ts" }).catch(() => void 0)}
+        disabled={!canWork}
+        className="mt-3 inline-flex items-center gap-2 bg-sky-600 hover:bg-sky-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400 disabled:opacity-50 text-white text-sm py-2 px-3 rounded"
+      >
+        Package 360p + 720p
+      </button>
+      {pkg && (
+        <div className="mt-3 space-y-2">
+          <HlsPlayer src={pkg.masterUrl} />
+          <ul className="text-xs grid grid-cols-2 sm:grid-cols-3 gap-x-3">
+            {Object.entries(pkg.files).map(([name, blob]) => (
+              <li key={name}>
+                <a href={pkg.downloads[name]} download={name} className="text-emerald-700 hover:underline">{name}</a>
+                <span className="text-gray-500"> {prettyBytes(blob.size)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MediaInfoSummary({ info }: { info: MediaInfo }) {
+  return (
+    <div className="text-xs text-gray-600 dark:text-gray-400 mt-1 space-y-0.5">
+      <div>
+        Container: {info.container}, duration: {info.duration !== undefined ? `${info.duration.toFixed(2)}s` : "unknown"}
+        {info.bitrate ? `, ${Math.round(info.bitrate / 1000)} kb/s` : ""}
+      </div>
+      {info.streams.map((st) => (
+        <div key={st.index}>
+          #{st.index} {st.type}: {st.codec}
+          {st.width && st.height ? `, ${st.width}x${st.height}` : ""}
+          {st.fps ? `, ${st.fps} fps` : ""}
+          {st.sampleRate ? `, ${st.sampleRate} Hz` : ""}
+          {st.channels ? `, ${st.channels} ch` : ""}
+          {st.bitrate ? `, ${Math.round(st.bitrate / 1000)} kb/s` : ""}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function JobRow({ job, onCancel, getLog }: { job: JobInfo; onCancel: () => void; getLog: () => string[] }) {
+  const active = job.status === "queued" || job.status === "running";
+  return (
+    <li className="text-xs">
+      <div className="flex items-center gap-2">
+        <span className="w-16 font-medium">{job.kind}</span>
+        <span className="w-28 text-gray-600">
+          {job.status}
+          {job.status === "queued" && job.position !== undefined ? ` (#${job.position + 1})` : ""}
+          {job.status === "running" ? ` ${(job.progress * 100).toFixed(0)}%` : ""}
+        </span>
+        {job.status === "running" && job.stats && (
+          <span className="text-gray-500">
+            {job.stats.speed !== undefined && `${job.stats.speed.toFixed(2)}x`}
+            {job.stats.fps !== undefined && ` · ${job.stats.fps.toFixed(0)} fps`}
+            {job.stats.eta !== undefined && ` · ETA ${formatDuration(job.stats.eta)}`}
+          </span>
+        )}
+        {job.error && <span className="text-red-600 truncate flex-1" title={job.errorDetail ?? job.error}>{job.error}</span>}
+        {job.memory && (
+          <span
+            className="text-gray-500"
+            title="MEMFS: inputs copied into the worker's in-memory file system and outputs read back from it. Mounted inputs are read in place from the file. Heap: as measured by the browser, when it can."
+          >
+            MEMFS {prettyBytes(job.memory.memfs.inputBytes + job.memory.memfs.outputBytes)}
+            {` (${prettyBytes(job.memory.memfs.inputBytes)} in, ${prettyBytes(job.memory.memfs.outputBytes)} out)`}
+            {` · ${prettyBytes(job.memory.memfs.mountedBytes)} mounted`}
+            {job.memory.heap && ` · ${job.memory.heap.scope === "workers" ? "worker heap" : "page heap"} ${prettyBytes(job.memory.heap.bytes)}`}
+          </span>
+        )}
+        {active && (
+          <button onClick={onCancel} className="ml-auto text-amber-700 hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-400 rounded px-1">
+            Cancel
+          </button>
+        )}
+      </div>
+      <JobLog getLog={getLog} />
+    </li>
+  );
+}
+
+// Collapsed by default; the log is only read while open
+function JobLog({ getLog }: { getLog: () => string[] }) {
+  const [open, setOpen] = useState(false);
+  const lines = open ? getLog() : [];
+  return (
+    <details className="mt-1" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary className="cursor-pointer text-gray-500 select-none">Log</summary>
+      {open && (
+        <pre className="mt-1 max-h-48 overflow-auto p-2 rounded bg-gray-50 dark:bg-zinc-800 border border-gray-200 dark:border-gray-800 whitespace-pre-wrap break-all">
+          {lines.length ? lines.join("\n") : "No output yet."}
+        </pre>
+      )}
+    </details>
+  );
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+// Plays an HLS master playlist: natively where the browser can (Safari), otherwise through hls.js on
+// Media Source Extensions. hls.js is loaded only when needed. Without either, says so instead of
+// showing a player that never starts.
+function HlsPlayer({ src }: { src: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [unsupported, setUnsupported] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    setUnsupported(false);
+    if (video.canPlayType("application/vnd.apple.mpegurl")) {
+      video.src = src;
+      return () => {
+        video.removeAttribute("src");
+        video.load();
+      };
+    }
+    let hls: Hls | null = null;
+    let disposed = false;
+    import("hls.js")
+      .then(({ default: HlsPlayback }) => {
+        if (disposed) return;
+        if (!HlsPlayback.isSupported()) {
+          setUnsupported(true);
+          return;
+        }
+        hls = new HlsPlayback();
+        hls.loadSource(src);
+        hls.attachMedia(video);
+      })
+      .catch(() => {
+        if (!disposed) setUnsupported(true);
+      });
+    return () => {
+      disposed = true;
+      hls?.destroy();
+    };
+  }, [src]);
+
+  // The element stays mounted so a new package can be tried again
+  return (
+    <>
+      {unsupported && <div className="text-xs text-amber-700">This browser can&apos;t play HLS; download the files below to check the package.</div>}
+      <video ref={videoRef} controls hidden={unsupported} className="w-full max-w-xl rounded border border-gray-200 dark:border-gray-800" />
+    </>
+  );
+}
+
 // Small presentational inputs
 function LabeledInput({ label, value, onChange, min, max }: { label: string; value: number; onChange: (n: number) => void; min?: number; max?: number }) {
   return (
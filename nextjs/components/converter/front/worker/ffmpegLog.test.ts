@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { classifyFfmpegError, FfmpegRunError, LogRing, parseStatsLine, toJobProgress } from "./ffmpegLog";
+
+const STATUS = "frame=  120 fps= 24 q=28.0 size=     512kB time=00:00:04.00 bitrate=1048.6kbits/s speed=0.8x";
+
+describe("parseStatsLine", () => {
+  it("parses ffmpeg status lines", () => {
+    expect(parseStatsLine(STATUS)).toEqual({ frame: 120, fps: 24, time: 4, bitrate: 1048.6, speed: 0.8 });
+    expect(parseStatsLine("size=     256kB time=00:01:02.50 bitrate= 33.5kbits/s speed=41.7x")).toMatchObject({ time: 62.5, speed: 41.7 });
+  });
+
+  it("ignores other lines and time=N/A", () => {
+    expect(parseStatsLine("Stream mapping:")).toBeNull();
+    expect(parseStatsLine("frame=    0 fps=0.0 q=0.0 size=       0kB time=N/A bitrate=N/A speed=N/A")).toBeNull();
+  });
+
+  it("clamps negative times to zero", () => {
+    expect(parseStatsLine("size=0kB time=-00:00:00.05 bitrate=N/A")?.time).toBe(0);
+  });
+});
+
+describe("toJobProgress", () => {
+  it("measures against the output duration and estimates the time left", () => {
+    const p = toJobProgress(parseStatsLine(STATUS), 10, 0.9);
+    expect(p.ratio).toBeCloseTo(0.4);
+    expect(p.eta).toBeCloseTo(7.5);
+    expect(p.fps).toBe(24);
+  });
+
+  it("falls back to ffmpeg.wasm's ratio, clamped", () => {
+    expect(toJobProgress(null, undefined, 1.7).ratio).toBe(1);
+    expect(toJobProgress(parseStatsLine(STATUS), undefined, 0.25)).toMatchObject({ ratio: 0.25, time: 4 });
+    expect(toJobProgress(null, undefined, NaN).ratio).toBe(0);
+  });
+});
+
+describe("classifyFfmpegError", () => {
+  it("recognizes common failures", () => {
+    expect(classifyFfmpegError(["[libx264 @ 0x1] height not divisible by 2 (640x361)"]).kind).toBe("oddDimensions");
+    expect(classifyFfmpegError(["Unknown encoder 'libfdk_aac'"]).message).toContain("libfdk_aac");
+    expect(classifyFfmpegError(["Stream map '0:a:0' matches no streams."]).kind).toBe("missingStream");
+    expect(classifyFfmpegError(["input.webm: Invalid data found when processing input"]).kind).toBe("invalidInput");
+    expect(classifyFfmpegError(["No such filter: 'foo'"]).message).toContain("foo");
+    expect(classifyFfmpegError(["Unrecognized option 'bogus'."]).message).toContain("bogus");
+  });
+
+  it("prefers out-of-memory over whatever it caused", () => {
+    const info = classifyFfmpegError(["Error while filtering: Cannot allocate memory", "Error initializing complex filters."]);
+    expect(info.kind).toBe("outOfMemory");
+    expect(info.detail).toBe("Error while filtering: Cannot allocate memory");
+  });
+
+  it("falls back to the last line that isn't a status line", () => {
+    const info = classifyFfmpegError(["Something odd happened", STATUS, ""], 1);
+    expect(info).toEqual({ kind: "unknown", message: "FFmpeg failed (exit code 1).", detail: "Something odd happened" });
+  });
+
+  it("carries kind and detail on FfmpegRunError", () => {
+    const err = new FfmpegRunError(classifyFfmpegError(["height not divisible by 2"]));
+    expect(err).toBeInstanceOf(Error);
+    expect(err.kind).toBe("oddDimensions");
+    expect(err.detail).toBe("height not divisible by 2");
+  });
+});
+
+describe("LogRing", () => {
+  it("keeps the newest lines, oldest first", () => {
+    const ring = new LogRing(3);
+    ["a", "b", "c", "d", "e"].forEach((l) => ring.push(l));
+    expect(ring.toArray()).toEqual(["c", "d", "e"]);
+    ring.clear();
+    ring.push("f");
+    expect(ring.toArray()).toEqual(["f"]);
+  });
+});
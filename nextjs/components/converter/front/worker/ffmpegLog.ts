@@ -0,0 +1,169 @@
+// Purpose: Make sense of ffmpeg's log output for progress and errors.
+// ffmpeg prints a status line while encoding, e.g.
+//   frame=  120 fps= 24 q=28.0 size=     512kB time=00:00:04.00 bitrate=1048.6kbits/s speed=0.8x
+// which is parsed into typed stats; progress is then measured against the length of the output
+// (after -ss/-t trimming) rather than the input. Failed runs are classified from the last lines
+// of the log into messages that say what to change. LogRing keeps a bounded per-job history.
+// Pure functions: used by the worker and the hook.
+
+import type { JobProgress } from "./workerMessages";
+
+export interface FfmpegStats {
+  frame?: number;
+  fps?: number;
+  time: number; // seconds of output written
+  bitrate?: number; // kbit/s
+  speed?: number; // multiple of real time
+}
+
+const STATS_RE = /^\s*(?:frame=|size=).*\btime=\s*(-?\d+:\d+:\d+(?:\.\d+)?)/;
+
+function field(line: string, name: string): number | undefined {
+  const m = new RegExp(`\\b${name}=\\s*([\\d.]+)`).exec(line);
+  return m ? Number(m[1]) : undefined;
+}
+
+function toSeconds(hms: string): number {
+  const sign = hms.startsWith("-") ? -1 : 1;
+  const [h, m, s] = hms.replace(/^-/, "").split(":").map(Number);
+  return sign * (h * 3600 + m * 60 + s);
+}
+
+// Null for anything that isn't a status line (or one with time=N/A)
+export function parseStatsLine(line: string): FfmpegStats | null {
+  const m = STATS_RE.exec(line);
+  if (!m) return null;
+  return {
+    frame: field(line, "frame"),
+    fps: field(line, "fps"),
+    time: Math.max(0, toSeconds(m[1])),
+    bitrate: field(line, "bitrate"),
+    speed: field(line, "speed"),
+  };
+}
+
+// With the output duration known the ratio and ETA come from the stats; otherwise `fallbackRatio`
+// (ffmpeg.wasm's own estimate against the input duration) is all there is.
+export function toJobProgress(stats: FfmpegStats | null, duration?: number, fallbackRatio = 0): JobProgress {
+  const progress: JobProgress = { ratio: clamp01(fallbackRatio) };
+  if (!stats) return progress;
+  Object.assign(progress, { time: stats.time, frame: stats.frame, fps: stats.fps, bitrate: stats.bitrate, speed: stats.speed });
+  if (duration && duration > 0) {
+    progress.ratio = clamp01(stats.time / duration);
+    if (stats.speed && stats.speed > 0) progress.eta = Math.max(0, duration - stats.time) / stats.speed;
+  }
+  return progress;
+}
+
+function clamp01(n: number): number {
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+}
+
+export type FfmpegErrorKind =
+  | "invalidInput"
+  | "missingStream"
+  | "unsupportedCodec"
+  | "oddDimensions"
+  | "outOfMemory"
+  | "invalidFilter"
+  | "invalidOption"
+  | "unknown";
+
+export interface FfmpegErrorInfo {
+  kind: FfmpegErrorKind;
+  message: string; // what went wrong and what to change
+  detail?: string; // the log line it was recognized from
+}
+
+// First match wins, so more specific causes come first
+const ERROR_RULES: { kind: FfmpegErrorKind; test: RegExp; message: (m: RegExpExecArray) => string }[] = [
+  {
+    kind: "outOfMemory",
+    test: /Cannot allocate memory|out of memory|memory access out of bounds|Aborted\(OOM\)/i,
+    message: () => "FFmpeg ran out of memory. Try a shorter clip, a lower resolution, or fewer jobs at once.",
+  },
+  {
+    kind: "oddDimensions",
+    test: /(width|height) not divisible by 2/,
+    message: (m) => `The ${m[1]} must be an even number for H.264. Pick an even size or let the height follow the width.`,
+  },
+  {
+    kind: "unsupportedCodec",
+    test: /Unknown encoder '([^']+)'|Encoder \(?([^\s)]+)\)? not found|Decoder \(?([^\s)]+)\)? not found/,
+    message: (m) => `This FFmpeg build has no "${m[1] ?? m[2] ?? m[3]}" codec. Choose another format or codec.`,
+  },
+  {
+    kind: "missingStream",
+    test: /matches no streams|does not contain any stream|Output file (?:#\d+ )?does not contain any stream/,
+    message: () => "The input has no stream of the kind this job needs (for example no audio track). Pick another file or job.",
+  },
+  {
+    kind: "invalidInput",
+    test: /Invalid data found when processing input|moov atom not found|EBML header parsing failed|could not find codec parameters/i,
+    message: () => "The input isn't a readable media file or is damaged. Record again or choose another file.",
+  },
+  {
+    kind: "invalidFilter",
+    test: /Error (?:initializing|reinitializing|configuring) (?:complex )?filters?|No such filter: '([^']+)'|Invalid too big or non positive size/,
+    message: (m) => (m[1] ? `This FFmpeg build has no "${m[1]}" filter.` : "A filter rejected its settings. Check sizes, positions and times against the input."),
+  },
+  {
+    kind: "invalidOption",
+    test: /Unrecognized option '([^']+)'|Option (\S+) not found|Invalid (?:duration|argument)/,
+    message: (m) => {
+      const option = m[1] ?? m[2];
+      return option ? `FFmpeg doesn't accept the option "${option}".` : "FFmpeg rejected one of the job's settings. Check times and numbers.";
+    },
+  },
+];
+
+export function classifyFfmpegError(lines: string[], exitCode?: number): FfmpegErrorInfo {
+  for (const rule of ERROR_RULES) {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const m = rule.test.exec(lines[i]);
+      if (m) return { kind: rule.kind, message: rule.message(m), detail: lines[i].trim() };
+    }
+  }
+  // Nothing recognized: the last line that isn't a status line usually says the most
+  const detail = [...lines].reverse().find((l) => l.trim() && !STATS_RE.test(l))?.trim();
+  return { kind: "unknown", message: `FFmpeg failed${exitCode !== undefined ? ` (exit code ${exitCode})` : ""}.`, detail };
+}
+
+export class FfmpegRunError extends Error {
+  readonly kind: FfmpegErrorKind;
+  readonly detail?: string;
+
+  constructor(info: FfmpegErrorInfo) {
+    super(info.message);
+    this.name = "FfmpegRunError";
+    this.kind = info.kind;
+    this.detail = info.detail;
+  }
+}
+
+// Fixed-size log history: once full, each new line replaces the oldest
+export class LogRing {
+  private lines: string[] = [];
+  private start = 0;
+
+  constructor(readonly capacity: number) {}
+
+  push(line: string) {
+    if (this.lines.length < this.capacity) {
+      this.lines.push(line);
+      return;
+    }
+    this.lines[this.start] = line;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  // Oldest first
+  toArray(): string[] {
+    return [...this.lines.slice(this.start), ...this.lines.slice(0, this.start)];
+  }
+
+  clear() {
+    this.lines = [];
+    this.start = 0;
+  }
+}
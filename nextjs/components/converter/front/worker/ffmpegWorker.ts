@@ -1,150 +1,524 @@
 // Purpose: Dedicated Web Worker that runs @ffmpeg/ffmpeg off the main thread.
-// It accepts commands to load the core, make a short preview clip, and extract a snapshot.
+// It accepts commands to load the core and to enqueue jobs (preview clip, snapshot, GIF/WebP animation,
+// audio extraction, frame strips/contact sheets, concatenation, watermarking, subtitles, HLS packaging,
+// generic exec, probe).
+// The multi-threaded core is used when the page is cross-origin isolated, the single-threaded one otherwise.
+// Jobs run one at a time from a priority FIFO queue; every event carries the jobId.
+// Blob inputs are mounted read-only (WORKERFS) rather than copied. A mount is shared by the queued
+// jobs that read the same Blob and unmounted when the last of them ends, so the worker never keeps
+// a Blob alive after its take is gone.
 // Communication uses postMessage with small, typed payloads defined in workerMessages.ts.
 
-import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile, toBlobURL } from "@ffmpeg/util";
-import type { WorkerCommand, WorkerEvent, PreviewParams, SnapshotParams } from "./workerMessages";
-import { CORE_JS_URL, CORE_WASM_URL } from "../cacheFfmpeg";
+import { FFFSType, FFmpeg } from "@ffmpeg/ffmpeg";
+import { toBlobURL } from "@ffmpeg/util";
+import type { BlobInput, ConcatParams, CoreURLs, ExecInput, ExecParams, JobId, JobKind, JobRequest, JobResult, MemfsUsage, OutputFile, ProbeParams, SubtitleParams, WatermarkParams, WorkerCommand, WorkerEvent } from "./workerMessages";
+import { CORE_ASSETS, CoreAssetURLs, CoreVariant, detectCoreVariant } from "../cacheFfmpeg";
+import { isSafeFsName, mimeForFile, PipelineValidationError, validateExecParams } from "./pipeline";
+import { parseLastTime, parseProbeLog } from "./probe";
+import { animationPipeline, concatPipeline, extractAudioPipeline, framesPipeline, hlsPipeline, previewPipeline, snapshotPipeline, subtitlesPipeline, watermarkPipeline } from "./presets";
+import { loadFont } from "./fonts";
+import { classifyFfmpegError, FfmpegRunError, FfmpegStats, LogRing, parseStatsLine, toJobProgress } from "./ffmpegLog";
 
-// We keep a single FFmpeg instance in the worker. We recreate it on cancel/terminate.
+// We keep a single FFmpeg instance in the worker. It is only recreated when a job has to be
+// stopped in the middle of an ffmpeg run, or on terminate.
 let ffmpeg: FFmpeg | null = null;
-let loading = false;
-let busy = false;
+let loadPromise: Promise<void> | null = null;
+// Core URLs from the last "load" command, reused when the instance is recreated after a cancel
+let coreURLs: CoreURLs = {};
 
-function post(event: WorkerEvent) {
-  // @ts-ignore
-  self.postMessage(event, { transfer: event.type === "result" ? [(event as any).payload.data] : [] });
+interface QueuedJob {
+  jobId: JobId;
+  priority: number;
+  seq: number; // submission order, keeps FIFO within one priority
+  job: JobRequest;
+  timeoutMs?: number; // running time allowed, excluding time spent queued
+  duration?: number; // seconds of output the main run writes, for progress (see outputDuration)
+  controller: AbortController;
+  outcome?: "canceled" | "timedOut"; // set when the job is being stopped
 }
 
-async function ensureLoaded(coreURL?: string, wasmURL?: string) {
-  if (ffmpeg && !loading) return;
-  if (!ffmpeg) ffmpeg = new FFmpeg();
-  if (loading) return; // another call in-flight
+// Extra time the core's exec timeout gets before the watchdog terminates the instance
+const TIMEOUT_GRACE_MS = 2000;
 
-  loading = true;
+const queue: QueuedJob[] = [];
+let seqCounter = 0;
+let running: QueuedJob | null = null;
+// True while ffmpeg.exec runs; stopping a job then means terminating the instance
+let execActive = false;
+// While set, log lines are also collected here (used by probe to parse ffmpeg's output)
+let logSink: string[] | null = null;
+// The running job's last log lines, to explain a failed run, and its latest status line
+const recentLog = new LogRing(50);
+let runningStats: FfmpegStats | null = null;
 
-  // Wire logs and progress to the main thread
-  ffmpeg!.on("log", ({ message }) => post({ type: "log", payload: { message } }));
-  ffmpeg!.on("progress", ({ progress, time }) => post({ type: "progress", payload: { ratio: progress, time } }));
+function post(event: WorkerEvent, transfer: Transferable[] = []) {
+  self.postMessage(event, { transfer });
+}
+
+function createInstance(): FFmpeg {
+  const instance = new FFmpeg();
+  // Wire logs and progress to the main thread, tagged with the job that is running
+  instance.on("log", ({ message }) => {
+    logSink?.push(message);
+    if (running) {
+      recentLog.push(message);
+      const stats = parseStatsLine(message);
+      if (stats) runningStats = stats;
+      if (stats && running.duration) post({ type: "progress", jobId: running.jobId, payload: toJobProgress(stats, running.duration) });
+    }
+    post({ type: "log", jobId: running?.jobId, payload: { message } });
+  });
+  // ffmpeg.wasm's ratio is measured against the input, which -ss/-t make wrong; only used when
+  // the output duration isn't known
+  instance.on("progress", ({ progress }) => {
+    if (running && !running.duration) post({ type: "progress", jobId: running.jobId, payload: toJobProgress(runningStats, undefined, progress) });
+  });
+  return instance;
+}
+
+// Use provided core URLs (likely from Cache Storage as blob: URLs) when they are for this variant.
+// Fallback to CDN via toBlobURL.
+async function resolveCoreURLs(variant: CoreVariant): Promise<CoreAssetURLs> {
+  if (coreURLs.coreURL && coreURLs.wasmURL && (coreURLs.variant ?? "st") === variant) {
+    return { coreURL: coreURLs.coreURL, wasmURL: coreURLs.wasmURL, workerURL: coreURLs.workerURL };
+  }
+  const assets = CORE_ASSETS[variant];
+  return {
+    coreURL: await toBlobURL(assets.coreURL, "text/javascript"),
+    wasmURL: await toBlobURL(assets.wasmURL, "application/wasm"),
+    workerURL: assets.workerURL && (await toBlobURL(assets.workerURL, "text/javascript")),
+  };
+}
 
-  // Use provided core URLs (likely from Cache Storage as blob: URLs). Fallback to CDN via toBlobURL.
-  const resolvedCoreURL = coreURL || (await toBlobURL(CORE_JS_URL, "text/javascript"));
-  const resolvedWasmURL = wasmURL || (await toBlobURL(CORE_WASM_URL, "application/wasm"));
+async function ensureLoaded(urls?: CoreURLs) {
+  if (urls?.coreURL || urls?.wasmURL) coreURLs = urls;
+  if (ffmpeg && loadPromise) return loadPromise;
 
-  await ffmpeg!.load({ coreURL: resolvedCoreURL, wasmURL: resolvedWasmURL });
-  loading = false;
-  post({ type: "loaded" });
+  let instance = createInstance();
+  ffmpeg = instance;
+
+  loadPromise = (async () => {
+    // Multi-threaded core when this worker is cross-origin isolated. If it fails to load (its pthread
+    // worker is blocked, not enough memory for the shared heap, ...) the single-threaded one takes over.
+    if (detectCoreVariant() === "mt") {
+      try {
+        await instance.load(await resolveCoreURLs("mt"));
+        post({ type: "loaded", payload: { variant: "mt" } });
+        return;
+      } catch (e) {
+        try { instance.terminate(); } catch {}
+        if (ffmpeg !== instance) throw e; // stopped while loading
+        post({ type: "log", payload: { message: `Multi-threaded core failed to load, falling back to single-threaded: ${e instanceof Error ? e.message : String(e)}` } });
+        instance = createInstance();
+        ffmpeg = instance;
+      }
+    }
+    await instance.load(await resolveCoreURLs("st"));
+    post({ type: "loaded", payload: { variant: "st" } });
+  })();
+
+  try {
+    await loadPromise;
+  } catch (e) {
+    // Allow a later retry instead of caching the failure
+    if (ffmpeg === instance) {
+      ffmpeg = null;
+      loadPromise = null;
+    }
+    throw e;
+  }
 }
 
-function scaleFilter(opts: { width?: number; height?: number }): string[] {
-  const vf: string[] = [];
-  if (opts.height && !opts.width) vf.push(`scale=-2:${opts.height}`);
-  if (opts.width && !opts.height) vf.push(`scale=${opts.width}:-2`);
-  if (opts.width && opts.height) vf.push(`scale=${opts.width}:${opts.height}`);
-  return vf.length ? ["-vf", vf.join(",")] : [];
+// What a running job needs: the instance it started on (a cancel may replace the global one),
+// its abort signal and, with a timeout, the moment it runs out of time.
+interface JobContext {
+  ff: FFmpeg;
+  signal: AbortSignal;
+  deadline?: number; // Date.now() based
 }
 
-async function doPreview(p: PreviewParams) {
-  if (!ffmpeg) throw new Error("FFmpeg is not loaded");
-  busy = true;
+// Internal to the worker: turned into a "timedOut" event, which the hook reports as its JobTimeoutError
+class DeadlineExceededError extends Error {
+  constructor() {
+    super("Job timed out");
+    this.name = "DeadlineExceededError";
+  }
+}
+
+// ffmpeg.exec can't be interrupted from outside; the core's own timeout makes it return early,
+// anything else has to terminate the instance (see stopRunning)
+async function execIn(ctx: JobContext, args: string[]): Promise<number> {
+  ctx.signal.throwIfAborted();
+  const remaining = ctx.deadline !== undefined ? Math.max(1, ctx.deadline - Date.now()) : -1;
+  execActive = true;
   try {
-    const inputName = p.inputName || "input.webm";
-    const data = new Uint8Array(p.data);
-    await ffmpeg.writeFile(inputName, data);
-
-    const start = p.start ?? 0;
-    const duration = p.duration ?? 10;
-
-    const vf = scaleFilter({ width: p.scaleWidth, height: p.scaleHeight });
-
-    let outName = "preview.mp4";
-    let args: string[];
-
-    if (p.toMp4 !== false) {
-      // Universal path: H.264/AAC in MP4
-      const crf = String(p.crf ?? 28);
-      const preset = p.preset ?? "veryfast";
-      args = [
-        "-ss", String(start),
-        "-t", String(duration),
-        "-i", inputName,
-        ...vf,
-        "-c:v", "libx264",
-        "-preset", preset,
-        "-crf", crf,
-        "-pix_fmt", "yuv420p",
-        "-c:a", "aac",
-        "-b:a", "128k",
-        "-movflags", "+faststart",
-        outName,
-      ];
-    } else {
-      // Fast path: keep container/codecs (works best for WebM)
-      outName = "preview.webm";
-      args = [
-        "-ss", String(start),
-        "-t", String(duration),
-        "-i", inputName,
-        ...vf,
-        "-c", "copy",
-        outName,
-      ];
-    }
-
-    await ffmpeg.exec(args);
-
-    const outData = (await ffmpeg.readFile(outName)) as Uint8Array;
-    post({ type: "result", payload: { kind: "preview", name: outName,
-            mime: outName.endsWith(".mp4") ? "video/mp4" : "video/webm", data: outData.buffer } });
+    const code = await ctx.ff.exec(args, remaining);
+    if (code !== 0 && ctx.deadline !== undefined && Date.now() >= ctx.deadline) throw new DeadlineExceededError();
+    return code;
   } finally {
-    // Clean up written files to keep FS lean
-    try { await ffmpeg.deleteFile("preview.mp4"); } catch {}
-    try { await ffmpeg.deleteFile("preview.webm"); } catch {}
-    try { await ffmpeg.deleteFile(p.inputName || "input.webm"); } catch {}
-    busy = false;
+    execActive = false;
+  }
+}
+
+// A Blob input mounted with WORKERFS; the file is read in place through the Blob
+interface Mount {
+  blobId: string;
+  dir: string;
+  path: string;
+  size: number;
+}
+
+// Mounts per instance (they live in its FS), by BlobInput id and file name. A mount outlives the
+// job that made it while queued jobs still read the same Blob, so a take is mounted once for all
+// of them; blobRefs counts those jobs and the last one to finish unmounts it.
+const mountsByInstance = new WeakMap<FFmpeg, Map<string, Mount>>();
+const blobRefs = new Map<string, number>();
+let mountCounter = 0;
+
+function mountsOf(ff: FFmpeg): Map<string, Mount> {
+  let mounts = mountsByInstance.get(ff);
+  if (!mounts) {
+    mounts = new Map();
+    mountsByInstance.set(ff, mounts);
+  }
+  return mounts;
+}
+
+// Mount a Blob at /mntN/<name>, or reuse a mount of the same Blob under the same name.
+// Null when the core was built without WORKERFS; the caller copies the Blob instead.
+async function mountBlob(ctx: JobContext, name: string, input: BlobInput): Promise<Mount | null> {
+  const mounts = mountsOf(ctx.ff);
+  const key = `${input.id}/${name}`;
+  const existing = mounts.get(key);
+  if (existing) return existing;
+  ctx.signal.throwIfAborted();
+  const dir = `/mnt${++mountCounter}`;
+  await ctx.ff.createDir(dir, { signal: ctx.signal });
+  const ok = await ctx.ff.mount(FFFSType.WORKERFS, { blobs: [{ name, data: input.blob }] }, dir);
+  if (!ok) {
+    try { await ctx.ff.deleteDir(dir); } catch {}
+    return null;
   }
+  const mount = { blobId: input.id, dir, path: `${dir}/${name}`, size: input.blob.size };
+  mounts.set(key, mount);
+  return mount;
 }
 
-async function doSnapshot(p: SnapshotParams) {
-  if (!ffmpeg) throw new Error("FFmpeg is not loaded");
-  busy = true;
+// Blob inputs a job reads, each once
+function blobIdsOf(job: JobRequest): string[] {
+  switch (job.kind) {
+    case "exec":
+      return [...new Set(job.params.inputs.flatMap((i) => (i.data instanceof ArrayBuffer ? [] : [i.data.id])))];
+    case "concat":
+      return [...new Set(job.params.segments.map((seg) => seg.data.id))];
+    default:
+      return [job.params.data.id];
+  }
+}
+
+function retainBlobs(job: JobRequest) {
+  for (const id of blobIdsOf(job)) blobRefs.set(id, (blobRefs.get(id) ?? 0) + 1);
+}
+
+// Called once per retained job when it leaves the queue or finishes. Blobs no job reads any more
+// are unmounted, so the FS drops its references to them.
+function releaseBlobs(job: JobRequest) {
+  for (const id of blobIdsOf(job)) {
+    const refs = (blobRefs.get(id) ?? 0) - 1;
+    if (refs > 0) {
+      blobRefs.set(id, refs);
+      continue;
+    }
+    blobRefs.delete(id);
+    if (!ffmpeg) continue;
+    const ff = ffmpeg;
+    const mounts = mountsOf(ff);
+    for (const [key, mount] of mounts) {
+      if (mount.blobId !== id) continue;
+      mounts.delete(key);
+      void ff.unmount(mount.dir).then(() => ff.deleteDir(mount.dir)).catch(() => void 0);
+    }
+  }
+}
+
+// Mount Blob inputs and write buffers into the in-memory FS. Returns the path of each mounted
+// input by name; anything not in it was written under its own name and has to be deleted.
+async function prepareInputs(ctx: JobContext, inputs: ExecInput[], usage: MemfsUsage): Promise<Record<string, string>> {
+  const paths: Record<string, string> = {};
+  for (const input of inputs) {
+    const mount = input.data instanceof ArrayBuffer ? null : await mountBlob(ctx, input.name, input.data);
+    if (mount) {
+      paths[input.name] = mount.path;
+      usage.mountedBytes += mount.size;
+      continue;
+    }
+    const data = input.data instanceof ArrayBuffer ? input.data : await input.data.blob.arrayBuffer();
+    usage.inputBytes += data.byteLength; // before writeFile transfers (detaches) it
+    await ctx.ff.writeFile(input.name, new Uint8Array(data), { signal: ctx.signal });
+  }
+  return paths;
+}
+
+// Prepare declared inputs, run any passes then the main ffmpeg run, read declared outputs back.
+// Every written file is removed afterwards so the in-memory FS doesn't grow across jobs.
+async function runExec(ctx: JobContext, kind: JobKind, p: ExecParams): Promise<JobResult> {
+  validateExecParams(p, { trustConcatLists: kind === "concat" });
+  const { ff, signal } = ctx;
+  const usage: MemfsUsage = { inputBytes: 0, outputBytes: 0, mountedBytes: 0 };
+  let paths: Record<string, string> = {};
   try {
-    const inputName = p.inputName || "input.webm";
-    const data = new Uint8Array(p.data);
-    await ffmpeg.writeFile(inputName, data);
-
-    const at = p.at ?? 1;
-    const vf = scaleFilter({ width: p.scaleWidth, height: p.scaleHeight });
-    const outName = "thumb.jpg";
-
-    const args = [
-      "-ss", String(at),
-      "-i", inputName,
-      "-frames:v", "1",
-      "-q:v", String(p.quality ?? 2),
-      ...vf,
-      outName,
-    ];
-
-    await ffmpeg.exec(args);
-    const outData = (await ffmpeg.readFile(outName)) as Uint8Array;
-    post({ type: "result", payload: { kind: "snapshot", name: outName, mime: "image/jpeg", data: outData.buffer } });
+    if (p.outputDir) await ff.createDir(p.outputDir, { signal });
+    paths = await prepareInputs(ctx, p.inputs, usage);
+    for (const args of [...(p.passes ?? []), p.args]) {
+      // Arguments naming a mounted input point at its mount instead
+      const code = await execIn(ctx, args.map((arg) => paths[arg] ?? arg));
+      if (code !== 0) throw new FfmpegRunError(classifyFfmpegError(recentLog.toArray(), code));
+    }
+
+    const files: OutputFile[] = [];
+    for (const output of p.outputs) {
+      let data: Uint8Array;
+      try {
+        data = (await ff.readFile(output.name, undefined, { signal })) as Uint8Array;
+      } catch (e) {
+        if (output.optional && !signal.aborted) continue;
+        throw e;
+      }
+      files.push({ name: output.name, mime: output.mime, data: data.buffer as ArrayBuffer });
+    }
+    if (p.outputDir) {
+      for (const node of await ff.listDir(p.outputDir, { signal })) {
+        if (node.isDir) continue;
+        const data = (await ff.readFile(`${p.outputDir}/${node.name}`, undefined, { signal })) as Uint8Array;
+        files.push({ name: node.name, mime: mimeForFile(node.name), data: data.buffer as ArrayBuffer });
+      }
+    }
+    if (files.length === 0) throw new Error("ffmpeg finished without writing any output");
+    usage.outputBytes = files.reduce((sum, f) => sum + f.data.byteLength, 0);
+    return { kind, files, memfs: usage };
   } finally {
-    try { await ffmpeg.deleteFile("thumb.jpg"); } catch {}
-    try { await ffmpeg.deleteFile(p.inputName || "input.webm"); } catch {}
-    busy = false;
+    for (const name of [...p.inputs, ...p.outputs].map((f) => f.name).concat(p.scratch ?? [])) {
+      if (paths[name]) continue;
+      try { await ff.deleteFile(name); } catch {}
+    }
+    if (p.outputDir) await removeDir(ff, p.outputDir);
   }
 }
 
-function cancelCurrent() {
-  // There's no fine-grained cancel, so terminate and recreate the instance.
-  if (!ffmpeg) return;
-  try { ffmpeg.terminate(); } catch {}
+async function removeDir(ff: FFmpeg, dir: string) {
+  try {
+    for (const node of await ff.listDir(dir)) {
+      if (!node.isDir) await ff.deleteFile(`${dir}/${node.name}`);
+    }
+    await ff.deleteDir(dir);
+  } catch {}
+}
+
+async function captureLog(run: () => Promise<unknown>): Promise<string[]> {
+  const lines: string[] = [];
+  logSink = lines;
+  try {
+    await run();
+  } finally {
+    logSink = null;
+  }
+  return lines;
+}
+
+async function runProbe(ctx: JobContext, p: ProbeParams): Promise<JobResult> {
+  const inputName = p.inputName || "input.webm";
+  if (!isSafeFsName(inputName)) throw new PipelineValidationError(`Unsafe file name "${inputName}"`);
+  const usage: MemfsUsage = { inputBytes: 0, outputBytes: 0, mountedBytes: 0 };
+  let paths: Record<string, string> = {};
+  try {
+    paths = await prepareInputs(ctx, [{ name: inputName, data: p.data }], usage);
+    const inputPath = paths[inputName] ?? inputName;
+    // Without an output ffmpeg prints the input summary and exits non-zero; that's expected here
+    const header = await captureLog(() => execIn(ctx, ["-hide_banner", "-i", inputPath]));
+    const info = parseProbeLog(header);
+    if (!info) throw new FfmpegRunError(classifyFfmpegError(header));
+    if (info.duration === undefined) {
+      // MediaRecorder output often has no duration in the header; a stream-copy pass finds the real end
+      const pass = await captureLog(() => execIn(ctx, ["-hide_banner", "-i", inputPath, "-map", "0", "-c", "copy", "-f", "null", "-"]));
+      info.duration = parseLastTime(pass);
+    }
+    return { kind: "probe", files: [], info, memfs: usage };
+  } finally {
+    if (!paths[inputName]) {
+      try { await ctx.ff.deleteFile(inputName); } catch {}
+    }
+  }
+}
+
+async function runWatermark(ctx: JobContext, p: WatermarkParams): Promise<JobResult> {
+  const font = p.text ? await loadFont(p.fontURL) : undefined;
+  return runExec(ctx, "watermark", watermarkPipeline(p, font));
+}
+
+// The concat list names segments by path, so in copy mode they're mounted before it is written
+// (runExec then finds the mounts already there)
+async function runConcat(ctx: JobContext, p: ConcatParams): Promise<JobResult> {
+  if (p.mode !== "copy") return runExec(ctx, "concat", concatPipeline(p));
+  const paths: Record<string, string> = {};
+  for (const input of concatPipeline(p).inputs) {
+    if (input.data instanceof ArrayBuffer) continue;
+    const mount = await mountBlob(ctx, input.name, input.data);
+    if (mount) paths[input.name] = mount.path;
+  }
+  return runExec(ctx, "concat", concatPipeline(p, paths));
+}
+
+async function runSubtitles(ctx: JobContext, p: SubtitleParams): Promise<JobResult> {
+  const font = p.mode === "burn" ? await loadFont(p.fontURL) : undefined;
+  return runExec(ctx, "subtitles", subtitlesPipeline(p, font));
+}
+
+// Length of what the job's main run writes, so progress isn't measured against the whole input
+// when -ss/-t trim it. Undefined when unknown; ffmpeg.wasm's own estimate is used then.
+function outputDuration(job: JobRequest): number | undefined {
+  switch (job.kind) {
+    case "preview":
+    case "animation":
+    case "extractAudio":
+      return job.params.duration;
+    case "frames":
+      return job.params.duration || undefined;
+    case "concat": {
+      const durations = job.params.segments.map((seg) => seg.duration);
+      if (durations.some((d) => !d)) return undefined;
+      const fades = job.params.mode === "normalize" ? (job.params.crossfade ?? 0) * (durations.length - 1) : 0;
+      return durations.reduce<number>((sum, d) => sum + d!, 0) - fades;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function runJob(ctx: JobContext, job: JobRequest): Promise<JobResult> {
+  switch (job.kind) {
+    case "preview":
+      return runExec(ctx, job.kind, previewPipeline(job.params));
+    case "snapshot":
+      return runExec(ctx, job.kind, snapshotPipeline(job.params));
+    case "animation":
+      return runExec(ctx, job.kind, animationPipeline(job.params));
+    case "extractAudio":
+      return runExec(ctx, job.kind, extractAudioPipeline(job.params));
+    case "frames":
+      return runExec(ctx, job.kind, framesPipeline(job.params));
+    case "concat":
+      return runConcat(ctx, job.params);
+    case "watermark":
+      return runWatermark(ctx, job.params);
+    case "subtitles":
+      return runSubtitles(ctx, job.params);
+    case "hls":
+      return runExec(ctx, job.kind, hlsPipeline(job.params));
+    case "exec":
+      return runExec(ctx, job.kind, job.params);
+    case "probe":
+      return runProbe(ctx, job.params);
+  }
+}
+
+// Highest priority first; FIFO within the same priority.
+function takeNext(): QueuedJob | undefined {
+  if (queue.length === 0) return undefined;
+  let best = 0;
+  for (let i = 1; i < queue.length; i++) {
+    const a = queue[i];
+    const b = queue[best];
+    if (a.priority > b.priority || (a.priority === b.priority && a.seq < b.seq)) best = i;
+  }
+  return queue.splice(best, 1)[0];
+}
+
+function positionOf(jobId: JobId): number {
+  const sorted = [...queue].sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+  return sorted.findIndex((q) => q.jobId === jobId);
+}
+
+async function pump() {
+  if (running) return;
+  const next = takeNext();
+  if (!next) return;
+  running = next;
+  recentLog.clear();
+  runningStats = null;
+  post({ type: "started", jobId: next.jobId });
+  let watchdog: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await ensureLoaded();
+    next.controller.signal.throwIfAborted();
+    // The timeout covers the job's own work, so the clock starts once the core is loaded
+    const startedAt = Date.now();
+    // Backstop for when the core's own timeout can't fire (stuck outside exec, or exec ignoring it)
+    if (next.timeoutMs) {
+      watchdog = setTimeout(() => { if (running === next) stopRunning("timedOut"); }, next.timeoutMs + TIMEOUT_GRACE_MS);
+    }
+    const ctx: JobContext = {
+      ff: ffmpeg!,
+      signal: next.controller.signal,
+      deadline: next.timeoutMs ? startedAt + next.timeoutMs : undefined,
+    };
+    const result = await runJob(ctx, next.job);
+    if (next.outcome) reportStopped(next);
+    else post({ type: "result", jobId: next.jobId, payload: result }, result.files.map((f) => f.data));
+  } catch (e: unknown) {
+    if (e instanceof DeadlineExceededError) next.outcome = "timedOut";
+    if (next.outcome) reportStopped(next);
+    else {
+      const detail = e instanceof FfmpegRunError ? e.detail : undefined;
+      post({ type: "error", jobId: next.jobId, payload: { message: e instanceof Error ? e.message : String(e), detail } });
+    }
+  } finally {
+    clearTimeout(watchdog);
+    running = null;
+    releaseBlobs(next.job);
+    void pump();
+  }
+}
+
+function reportStopped(job: QueuedJob) {
+  if (job.outcome === "timedOut") post({ type: "timedOut", jobId: job.jobId, payload: { timeoutMs: job.timeoutMs ?? 0 } });
+  else post({ type: "canceled", jobId: job.jobId });
+}
+
+// Stop the running job. Between ffmpeg runs the abort signal is enough and the core stays loaded;
+// during one the instance has to go, and a fresh one loads in the background so the next job
+// doesn't pay for it. pump() reports the outcome once the job's promise settles.
+function stopRunning(outcome: NonNullable<QueuedJob["outcome"]>) {
+  if (!running) return;
+  running.outcome = outcome;
+  running.controller.abort();
+  if (!execActive) return;
+  dropInstance();
+  void ensureLoaded().catch(() => void 0);
+}
+
+// Terminate the instance, busy or idle; the next job or "load" starts a new one from scratch.
+// Its mounts go with it.
+function dropInstance() {
+  if (ffmpeg) {
+    mountsByInstance.delete(ffmpeg);
+    try { ffmpeg.terminate(); } catch {}
+  }
   ffmpeg = null;
-  loading = false;
-  busy = false;
-  post({ type: "canceled" });
+  loadPromise = null;
+  execActive = false;
+}
+
+function cancelJob(jobId?: JobId) {
+  if (jobId) {
+    const idx = queue.findIndex((q) => q.jobId === jobId);
+    if (idx >= 0) {
+      releaseBlobs(queue.splice(idx, 1)[0].job);
+      post({ type: "canceled", jobId });
+      return;
+    }
+  }
+  if (!running || (jobId && running.jobId !== jobId)) return;
+  stopRunning("canceled");
 }
 
 // Message handler from the main thread
@@ -152,35 +526,45 @@ self.onmessage = async (ev: MessageEvent<WorkerCommand>) => {
   const msg = ev.data;
   try {
     if (msg.type === "load") {
-      await ensureLoaded(msg.payload?.coreURL, msg.payload?.wasmURL);
-      return;
-    }
-
-    if (msg.type === "preview") {
-      await ensureLoaded();
-      if (busy) throw new Error("FFmpeg worker is busy");
-      await doPreview(msg.payload);
+      await ensureLoaded(msg.payload);
       return;
     }
 
-    if (msg.type === "snapshot") {
-      await ensureLoaded();
-      if (busy) throw new Error("FFmpeg worker is busy");
-      await doSnapshot(msg.payload);
+    if (msg.type === "enqueue") {
+      retainBlobs(msg.job);
+      queue.push({
+        jobId: msg.jobId,
+        priority: msg.priority ?? 0,
+        seq: seqCounter++,
+        job: msg.job,
+        timeoutMs: msg.timeoutMs,
+        duration: outputDuration(msg.job),
+        controller: new AbortController(),
+      });
+      post({ type: "queued", jobId: msg.jobId, position: positionOf(msg.jobId) });
+      void pump();
       return;
     }
 
     if (msg.type === "cancel") {
-      cancelCurrent();
+      cancelJob(msg.jobId);
       return;
     }
 
     if (msg.type === "terminate") {
-      cancelCurrent();
+      for (const q of queue.splice(0)) {
+        releaseBlobs(q.job);
+        post({ type: "canceled", jobId: q.jobId });
+      }
+      if (running) {
+        running.outcome = "canceled";
+        running.controller.abort();
+      }
+      dropInstance();
       post({ type: "terminated" });
       return;
     }
-  } catch (e: any) {
-    post({ type: "error", payload: { message: e?.message || String(e) } });
+  } catch (e: unknown) {
+    post({ type: "error", payload: { message: e instanceof Error ? e.message : String(e) } });
   }
 };
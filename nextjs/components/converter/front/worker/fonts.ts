@@ -0,0 +1,23 @@
+// Purpose: Fonts for filters that render text (drawtext, subtitles).
+// ffmpeg.wasm has no system fonts, so a TTF is fetched once per URL inside the worker and
+// written into the job's files. The default ships in public/fonts (Roboto, SIL OFL 1.1) so it is
+// served from the app's own origin, which also keeps it loadable under COEP.
+
+export const DEFAULT_FONT_URL = "/fonts/Roboto-Regular.ttf";
+
+const fonts = new Map<string, Promise<ArrayBuffer>>();
+
+// Returns a fresh copy each time: the ffmpeg FS write transfers (detaches) the buffer it gets
+export async function loadFont(url: string = DEFAULT_FONT_URL): Promise<ArrayBuffer> {
+  let pending = fonts.get(url);
+  if (!pending) {
+    pending = fetch(url).then((res) => {
+      if (!res.ok) throw new Error(`Failed to load font ${url}: ${res.status}`);
+      return res.arrayBuffer();
+    });
+    fonts.set(url, pending);
+    // Let a later job retry after a network failure
+    pending.catch(() => fonts.delete(url));
+  }
+  return (await pending).slice(0);
+}
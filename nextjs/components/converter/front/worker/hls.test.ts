@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHlsPackage, revokeHlsPackage } from "./hls";
+
+const MASTER = "#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nstream_0.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=2500000\nstream_1.m3u8\n";
+const media = (i: number) => `#EXTM3U\n#EXT-X-MAP:URI="init_${i}.mp4"\n#EXTINF:4.0,\nstream_${i}_000.m4s\n#EXT-X-ENDLIST\n`;
+const text = (s: string) => new Blob([s], { type: "application/vnd.apple.mpegurl" });
+
+// Object URLs are recorded so rewritten playlists can be read back
+let blobs: Map<string, Blob>;
+beforeEach(() => {
+  blobs = new Map();
+  vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+    const url = `blob:test/${blobs.size}`;
+    blobs.set(url, blob as Blob);
+    return url;
+  });
+  vi.spyOn(URL, "revokeObjectURL").mockImplementation((url) => void blobs.delete(url));
+});
+afterEach(() => vi.restoreAllMocks());
+
+describe("createHlsPackage", () => {
+  const files = () => [
+    { name: "master.m3u8", blob: text(MASTER) },
+    ...[0, 1].flatMap((i) => [
+      { name: `stream_${i}.m3u8`, blob: text(media(i)) },
+      { name: `init_${i}.mp4`, blob: new Blob([new Uint8Array(8)]) },
+      { name: `stream_${i}_000.m4s`, blob: new Blob([new Uint8Array(8)]) },
+    ]),
+  ];
+
+  it("points every playlist entry and init segment at object URLs", async () => {
+    const pkg = await createHlsPackage(files());
+    const master = await blobs.get(pkg.masterUrl)!.text();
+    expect(master).toContain(`\n${pkg.urls["stream_0.m3u8"]}\n`);
+    expect(master).not.toContain("stream_1.m3u8");
+
+    const variant = await blobs.get(pkg.urls["stream_1.m3u8"])!.text();
+    expect(variant).toContain(`URI="${pkg.urls["init_1.mp4"]}"`);
+    expect(variant).toContain(`\n${pkg.urls["stream_1_000.m4s"]}\n`);
+    expect(variant).toContain("#EXTINF:4.0,");
+
+    // Downloads keep the files as ffmpeg wrote them
+    expect(await blobs.get(pkg.downloads["master.m3u8"])!.text()).toBe(MASTER);
+  });
+
+  it("requires the master playlist", async () => {
+    await expect(createHlsPackage(files().slice(1))).rejects.toThrow(/master\.m3u8/);
+  });
+
+  it("revokes every URL it made", async () => {
+    const pkg = await createHlsPackage(files());
+    revokeHlsPackage(pkg);
+    expect(blobs.size).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+// Purpose: Make an HLS package returned by the worker playable without a server.
+// Playlists reference segments and variant playlists by relative name, which means nothing for
+// blob: URLs. Every file gets its own object URL and playlists are rewritten to point at them,
+// bottom-up (segments, then media playlists, then the master).
+
+export interface HlsPackage {
+  files: Record<string, Blob>; // file name -> content, as written by ffmpeg
+  masterName: string; // "master.m3u8"
+  masterUrl: string; // object URL of the rewritten master playlist
+  urls: Record<string, string>; // file name -> object URL (playlists point at rewritten copies)
+  downloads: Record<string, string>; // file name -> object URL of the file as ffmpeg wrote it
+}
+
+const PLAYLIST_MIME = "application/vnd.apple.mpegurl";
+
+export async function createHlsPackage(list: { name: string; blob: Blob }[], masterName = "master.m3u8"): Promise<HlsPackage> {
+  const files: Record<string, Blob> = Object.fromEntries(list.map((f) => [f.name, f.blob]));
+  if (!files[masterName]) throw new Error(`HLS package has no ${masterName}`);
+  const urls: Record<string, string> = {};
+  const names = Object.keys(files);
+  const isPlaylist = (name: string) => name.endsWith(".m3u8");
+
+  const downloads: Record<string, string> = {};
+  for (const name of names) downloads[name] = URL.createObjectURL(files[name]);
+  for (const name of names.filter((n) => !isPlaylist(n))) urls[name] = downloads[name];
+  for (const name of names.filter((n) => isPlaylist(n) && n !== masterName)) {
+    urls[name] = await rewritePlaylist(files[name], urls);
+  }
+  urls[masterName] = await rewritePlaylist(files[masterName], urls);
+  return { files, masterName, masterUrl: urls[masterName], urls, downloads };
+}
+
+// URI lines and URI="..." attributes (EXT-X-MAP init segments) are swapped for object URLs
+async function rewritePlaylist(playlist: Blob, urls: Record<string, string>): Promise<string> {
+  const text = (await playlist.text())
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith("#")) return urls[trimmed] ?? line;
+      return line.replace(/URI="([^"]+)"/, (m, uri: string) => (urls[uri] ? `URI="${urls[uri]}"` : m));
+    })
+    .join("\n");
+  return URL.createObjectURL(new Blob([text], { type: PLAYLIST_MIME }));
+}
+
+export function revokeHlsPackage(pkg: HlsPackage) {
+  new Set([...Object.values(pkg.urls), ...Object.values(pkg.downloads)]).forEach((url) => URL.revokeObjectURL(url));
+}
@@ -2,3 +2,11 @@
 export { default as FfmpegWorkerPanel } from "./FfmpegWorkerPanel";
 export * from "./useFfmpegWorker";
 export * from "./workerMessages";
+export * from "./pipeline";
+export * from "./presets";
+export * from "./probe";
+export * from "./subtitles";
+export * from "./hls";
+export * from "./workerPool";
+export * from "./ffmpegLog";
+export * from "./memory";
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { measureHeap } from "./memory";
+
+const worker = (bytes: number) => ({ bytes, attribution: [{ scope: "DedicatedWorkerGlobalScope" }] });
+const page = (bytes: number) => ({ bytes, attribution: [{ scope: "Window" }] });
+
+describe("measureHeap", () => {
+  it("sums the bytes attributed to dedicated workers when isolated", async () => {
+    const perf = {
+      measureUserAgentSpecificMemory: async () => ({ bytes: 700, breakdown: [page(100), worker(200), worker(400)] }),
+      memory: { usedJSHeapSize: 50 },
+    };
+    expect(await measureHeap(perf, true)).toEqual({ bytes: 600, scope: "workers" });
+  });
+
+  it("falls back to the page heap when not isolated or the measurement fails", async () => {
+    const measured = { measureUserAgentSpecificMemory: async () => ({ bytes: 1, breakdown: [worker(1)] }), memory: { usedJSHeapSize: 50 } };
+    expect(await measureHeap(measured, false)).toEqual({ bytes: 50, scope: "page" });
+    const failing = { measureUserAgentSpecificMemory: () => Promise.reject(new Error("SecurityError")), memory: { usedJSHeapSize: 60 } };
+    expect(await measureHeap(failing, true)).toEqual({ bytes: 60, scope: "page" });
+  });
+
+  it("returns undefined when the browser exposes neither API", async () => {
+    expect(await measureHeap({}, true)).toBeUndefined();
+    expect(await measureHeap(undefined, false)).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+// Purpose: Measure the heap behind finished jobs, with whatever the browser offers.
+// performance.measureUserAgentSpecificMemory (Chromium, cross-origin isolated pages only) covers
+// workers too, so the bytes attributed to dedicated workers are reported: the pool's workers and
+// the threads the ffmpeg core runs in. performance.memory (Chromium) only knows the page's own JS
+// heap, which excludes workers; it is reported as such. Other browsers expose neither.
+
+export interface HeapUsage {
+  bytes: number;
+  scope: "workers" | "page"; // what `bytes` covers
+}
+
+interface MemoryBreakdownEntry {
+  bytes: number;
+  attribution: { scope: string }[];
+}
+
+// Neither API is in lib.dom yet
+export interface MemoryPerformance {
+  measureUserAgentSpecificMemory?: () => Promise<{ bytes: number; breakdown: MemoryBreakdownEntry[] }>;
+  memory?: { usedJSHeapSize: number };
+}
+
+// Undefined when nothing can be measured. The precise API may take a while to resolve: the
+// browser answers after its next garbage collection.
+export async function measureHeap(
+  perf: MemoryPerformance | undefined = globalThis.performance as MemoryPerformance | undefined,
+  isolated = typeof crossOriginIsolated !== "undefined" && crossOriginIsolated,
+): Promise<HeapUsage | undefined> {
+  if (isolated && perf?.measureUserAgentSpecificMemory) {
+    try {
+      const { breakdown } = await perf.measureUserAgentSpecificMemory();
+      const workers = breakdown.filter((entry) => entry.attribution.some((a) => a.scope === "DedicatedWorkerGlobalScope"));
+      if (workers.length > 0) return { bytes: workers.reduce((sum, entry) => sum + entry.bytes, 0), scope: "workers" };
+    } catch {
+      // SecurityError when the page isn't isolated after all; fall through
+    }
+  }
+  if (perf?.memory) return { bytes: perf.memory.usedJSHeapSize, scope: "page" };
+  return undefined;
+}
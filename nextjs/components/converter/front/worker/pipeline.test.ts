@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { isSafeFsName, mimeForFile, pipeline, PipelineValidationError, validateExecParams } from "./pipeline";
+import type { ExecParams } from "./workerMessages";
+
+const buf = () => new ArrayBuffer(4);
+const params = (p: Partial<ExecParams>): ExecParams => ({
+  inputs: [{ name: "in.webm", data: buf() }],
+  args: ["-i", "in.webm", "out.mp4"],
+  outputs: [{ name: "out.mp4", mime: "video/mp4" }],
+  ...p,
+});
+
+describe("isSafeFsName", () => {
+  it("accepts plain file names", () => {
+    expect(isSafeFsName("input.webm")).toBe(true);
+    expect(isSafeFsName("frame_001.jpg")).toBe(true);
+  });
+
+  it("rejects paths, traversal and protocols", () => {
+    for (const name of ["/etc/passwd", "a/b.txt", "..", "a..b", ".hidden", "file:x", ""]) {
+      expect(isSafeFsName(name)).toBe(false);
+    }
+  });
+});
+
+describe("mimeForFile", () => {
+  it("maps known extensions and falls back to octet-stream", () => {
+    expect(mimeForFile("master.m3u8")).toBe("application/vnd.apple.mpegurl");
+    expect(mimeForFile("seg.TS")).toBe("video/mp2t");
+    expect(mimeForFile("blob.bin")).toBe("application/octet-stream");
+  });
+});
+
+describe("validateExecParams", () => {
+  it("accepts declared inputs and outputs", () => {
+    expect(() => validateExecParams(params({}))).not.toThrow();
+  });
+
+  it("requires an output", () => {
+    expect(() => validateExecParams(params({ outputs: [] }))).toThrow(PipelineValidationError);
+  });
+
+  it("rejects duplicate and unsafe names", () => {
+    expect(() => validateExecParams(params({ outputs: [{ name: "in.webm", mime: "video/webm" }] }))).toThrow(/more than once/);
+    expect(() => validateExecParams(params({ inputs: [{ name: "../x", data: buf() }] }))).toThrow(/Unsafe/);
+  });
+
+  it("rejects absolute paths, traversal and protocols in arguments", () => {
+    expect(() => validateExecParams(params({ args: ["-i", "/etc/passwd", "out.mp4"] }))).toThrow(/outside/);
+    expect(() => validateExecParams(params({ args: ["-i", "in.webm", "-vf", "scale=1:1", "../out.mp4"] }))).toThrow(/outside/);
+    expect(() => validateExecParams(params({ args: ["-i", "https://example.com/a.mp4", "out.mp4"] }))).toThrow(/protocol/);
+  });
+
+  it("requires -i names and outputs to be declared", () => {
+    expect(() => validateExecParams(params({ args: ["-i", "other.webm", "out.mp4"] }))).toThrow(/Input "other.webm"/);
+    expect(() => validateExecParams(params({ args: ["-i", "in.webm", "stray.mp4"] }))).toThrow(/Output "stray.mp4"/);
+  });
+
+  it("keeps stream specifiers and option values apart from files", () => {
+    const args = ["-y", "-i", "in.webm", "-map", "0:v", "-c:v", "libx264", "-an", "-var_stream_map", "v:0,a:0", "out.mp4"];
+    expect(() => validateExecParams(params({ args }))).not.toThrow();
+  });
+
+  it("scans filter graphs for files and absolute paths", () => {
+    const withFilter = (filter: string) => params({ args: ["-i", "in.webm", "-vf", filter, "out.mp4"] });
+    expect(() => validateExecParams(withFilter("fps=12/5,scale=320:-2,pad=iw:ih:(ow-iw)/2:0"))).not.toThrow();
+    expect(() => validateExecParams(withFilter("movie=/mnt1/in.webm"))).toThrow(/outside/);
+    expect(() => validateExecParams(withFilter("subtitles=/subs.srt"))).toThrow(/outside/);
+    expect(() => validateExecParams(withFilter("drawtext=fontfile=/font.ttf:text=x"))).toThrow(/outside/);
+    expect(() => validateExecParams(withFilter("movie=other.webm"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(withFilter("drawtext=textfile=secret.txt"))).toThrow(/not one of the job's files/);
+  });
+
+  it("sees through quoting and escapes in filter graphs", () => {
+    const withFilter = (filter: string) => params({ args: ["-i", "in.webm", "-vf", filter, "out.mp4"] });
+    expect(() => validateExecParams(withFilter("movie='other.bin'"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(withFilter("subtitles='x.srt'"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(withFilter("drawtext=textfile='secret.txt':text=x"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(withFilter("movie=\\/etc/passwd"))).toThrow(/outside/);
+    expect(() => validateExecParams(withFilter("movie='in.webm'"))).not.toThrow();
+    // A quoted separator is part of the name, so it can't split off a declared one
+    expect(() => validateExecParams(withFilter("movie='in.webm,x'"))).toThrow(/not one of the job's files/);
+  });
+
+  it("checks concat lists and refuses -safe 0 unless the lists are trusted", () => {
+    const list = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+    const concat = (text: string, extra: string[] = []) => params({
+      inputs: [{ name: "a.webm", data: buf() }, { name: "b.webm", data: buf() }, { name: "list.txt", data: list(text) }],
+      args: ["-f", "concat", ...extra, "-i", "list.txt", "-c", "copy", "out.mp4"],
+    });
+    expect(() => validateExecParams(concat("file 'a.webm'\nfile b.webm\n"))).not.toThrow();
+    expect(() => validateExecParams(concat("file '/mnt3/other.webm'\n"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(concat("file 'mnt3/other.webm'\n"))).toThrow(/not one of the job's files/);
+    expect(() => validateExecParams(concat("file 'a.webm'\n", ["-safe", "0"]))).toThrow(/-safe 0/);
+    expect(() => validateExecParams(concat("file '/mnt1/a.webm'\n", ["-safe", "0"]), { trustConcatLists: true })).not.toThrow();
+  });
+
+  it("rejects options that write their own files", () => {
+    expect(() => validateExecParams(params({ args: ["-i", "in.webm", "-passlogfile", "log", "out.mp4"] }))).toThrow(/not allowed/);
+  });
+});
+
+describe("FfmpegPipeline", () => {
+  it("orders input options, filters, codecs and outputs", () => {
+    const p = pipeline()
+      .input("in.webm", buf(), { seek: 2, duration: 3 })
+      .output("out.mp4", "video/mp4", (o) => o.videoFilter("scale=640:-2").videoCodec("libx264", { crf: 23 }))
+      .build();
+    expect(p.args.slice(0, 6)).toEqual(["-ss", "2", "-t", "3", "-i", "in.webm"]);
+    expect(p.args).toContain("-vf");
+    expect(p.args[p.args.length - 1]).toBe("out.mp4");
+  });
+
+  it("turns pass outputs into scratch files the main run can read", () => {
+    const p = pipeline()
+      .input("in.webm", buf())
+      .pass((pl) => pl.ref("in.webm").output("palette.png", "image/png", (o) => o.videoFilter("palettegen")))
+      .ref("palette.png")
+      .output("clip.gif", "image/gif")
+      .build();
+    expect(p.scratch).toEqual(["palette.png"]);
+    expect(p.passes).toHaveLength(1);
+    expect(p.outputs.map((o) => o.name)).toEqual(["clip.gif"]);
+  });
+
+  it("declares optional files for sequences", () => {
+    const p = pipeline().input("in.webm", buf()).sequence("frame_%03d.jpg", 3, "image/jpeg").build();
+    expect(p.outputs.map((o) => o.name)).toEqual(["frame_001.jpg", "frame_002.jpg", "frame_003.jpg"]);
+    expect(p.outputs.every((o) => o.optional)).toBe(true);
+  });
+
+  it("writes collected outputs into the output directory", () => {
+    const p = pipeline().input("in.webm", buf()).collect("hls", "stream_%v.m3u8", (o, dir) => o.options("-hls_segment_filename", `${dir}/seg_%03d.ts`)).build();
+    expect(p.outputDir).toBe("hls");
+    expect(p.args[p.args.length - 1]).toBe("hls/stream_%v.m3u8");
+  });
+
+  it("rejects HLS segments outside the output directory", () => {
+    expect(() => pipeline().input("in.webm", buf()).collect("hls", "stream.m3u8", (o) => o.options("-hls_segment_filename", "seg_%03d.ts")).build())
+      .toThrow(/output directory/);
+  });
+});
@@ -0,0 +1,385 @@
+// Purpose: Typed builder for generic ffmpeg "exec" jobs plus the safety checks the worker applies.
+// The builder turns inputs, filters, codecs and outputs into an ffmpeg argument list and declares
+// which virtual-FS files go in and come out. Names are restricted to plain file names so a job
+// can't read or overwrite anything outside its own scratch files in the ffmpeg MEMFS.
+// Dependency-free: imported by both the main thread and the worker.
+
+import type { ExecInput, ExecOutput, ExecParams } from "./workerMessages";
+
+export type VideoCodec = "libx264" | "libvpx" | "libvpx-vp9" | "mpeg4" | "mjpeg" | "png" | "libwebp" | "gif" | "copy";
+export type AudioCodec = "aac" | "libmp3lame" | "libopus" | "libvorbis" | "pcm_s16le" | "copy";
+export type X264Preset = "ultrafast"|"superfast"|"veryfast"|"faster"|"fast"|"medium"|"slow"|"slower"|"veryslow";
+
+export interface InputOptions {
+  seek?: number; // -ss before -i (fast seek), seconds
+  duration?: number; // -t before -i, seconds
+  format?: string; // -f, e.g. "concat"
+  options?: string[]; // extra raw input options, placed before -i
+}
+
+export interface VideoCodecOptions {
+  crf?: number;
+  preset?: X264Preset;
+  bitrate?: string; // e.g. "2M"
+  pixFmt?: string; // e.g. "yuv420p"
+}
+
+export interface AudioCodecOptions {
+  bitrate?: string; // e.g. "128k"
+  sampleRate?: number;
+  channels?: number;
+}
+
+// Plain file names only: no directories, no "..", no protocol prefixes (file:, http:, pipe:, concat:)
+const SAFE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+// ffmpeg protocols that reach outside MEMFS or read arbitrary files (stream specifiers like "v:0" are fine)
+const PROTOCOL = /^(file|https?|pipe|fd|concatf?|subfile|crypto|data|cache|async|tcp|udp|tls|unix|rtp|rtsp|rtmp\w*|ftp|gopher|srt):/i;
+
+export function isSafeFsName(name: string): boolean {
+  return SAFE_NAME.test(name) && !name.includes("..");
+}
+
+const MIME_BY_EXT: Record<string, string> = {
+  m3u8: "application/vnd.apple.mpegurl",
+  ts: "video/mp2t",
+  m4s: "video/iso.segment",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  vtt: "text/vtt",
+};
+
+// MIME for files collected from an outputDir, where nothing was declared up front
+export function mimeForFile(name: string): string {
+  return MIME_BY_EXT[name.split(".").pop()?.toLowerCase() ?? ""] ?? "application/octet-stream";
+}
+
+export class PipelineValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineValidationError";
+  }
+}
+
+// Options that don't take a value; every other option is assumed to take exactly one
+const FLAG_OPTIONS = new Set([
+  "-y", "-n", "-vn", "-an", "-sn", "-dn", "-shortest", "-hide_banner", "-nostdin", "-nostats", "-stats", "-re",
+  "-copyts", "-start_at_zero", "-accurate_seek", "-noaccurate_seek", "-autorotate", "-noautorotate", "-xerror",
+]);
+// Options whose value is a file ffmpeg reads or writes on its own; not available to jobs
+const FILE_OPTIONS = new Set([
+  "-passlogfile", "-vstats_file", "-sdp_file", "-dump_attachment", "-attach", "-filter_script", "-filter_complex_script",
+  "-report", "-progress",
+]);
+// Filters that open the file named by their first argument (or filename=/f=)
+const FILE_FILTER_RE = /\b(movie|amovie|subtitles|ass)=([^:,;[\]'=]+)(=?)/g;
+// Filter options naming a file
+const FILE_KEY_RE = /(?:^|[:=,;\]'\s])(fontfile|textfile|filename|fontsdir)=([^:,;[\]'"]+)/g;
+// A path starting right after a filter/option separator
+const ABSOLUTE_IN_FILTER_RE = /(?:^|[=:,;'"[\]])\s*\//;
+
+// Filter syntax that quoting or escaping can make literal
+const FILTER_SPECIAL_RE = /[:,;[\]='\\]/;
+
+// Resolve ffmpeg's '...' quoting and \ escapes. With `markLiteral`, characters that became literal
+// and would otherwise be syntax are replaced by U+FFFD, so they can't pass for separators (and a
+// name containing one can't match a declared file).
+function unquote(text: string, markLiteral = false): string {
+  let out = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "'") {
+      quoted = !quoted;
+      continue;
+    }
+    const literal = quoted || c === "\\";
+    const ch = !quoted && c === "\\" ? text[++i] ?? "" : c;
+    out += literal && markLiteral && FILTER_SPECIAL_RE.test(ch) ? "\uFFFD" : ch;
+  }
+  return out;
+}
+
+function isFilterOption(opt: string): boolean {
+  return opt === "-vf" || opt === "-af" || opt === "-lavfi" || opt.startsWith("-filter");
+}
+
+export interface ExecValidationOptions {
+  // Concat lists may name absolute paths (-safe 0). Only for the concat preset, whose list names
+  // the paths the worker mounted the job's own segments at.
+  trustConcatLists?: boolean;
+}
+
+// Throws PipelineValidationError when params could touch files outside the job's own files: every
+// -i, output, file named inside a filter graph and file named by a concat list must be one the
+// params declare.
+export function validateExecParams(p: ExecParams, opts: ExecValidationOptions = {}): void {
+  if (p.outputs.length === 0 && !p.outputDir) throw new PipelineValidationError("At least one output file must be declared");
+  const seen = new Set<string>();
+  const names = [...p.inputs, ...p.outputs].map((f) => f.name).concat(p.scratch ?? [], p.outputDir ?? []);
+  for (const name of names) {
+    if (!isSafeFsName(name)) throw new PipelineValidationError(`Unsafe file name "${name}"`);
+    if (seen.has(name)) throw new PipelineValidationError(`File name "${name}" is used more than once`);
+    seen.add(name);
+  }
+  const readable = new Set([...p.inputs.map((f) => f.name), ...(p.scratch ?? [])]);
+  const writable = new Set([...p.outputs.map((f) => f.name), ...(p.scratch ?? [])]);
+  const known = new Set([...readable, ...writable]);
+  const lists = opts.trustConcatLists ? null : p.inputs;
+  for (const args of [...(p.passes ?? []), p.args]) checkArgs(args, readable, writable, known, lists, p.outputDir);
+}
+
+// `lists` holds the inputs to check concat lists against; null when they are trusted
+function checkArgs(
+  args: string[], readable: Set<string>, writable: Set<string>, known: Set<string>, lists: ExecInput[] | null, outputDir?: string,
+) {
+  let format: string | undefined; // -f of the next input
+  for (const arg of args) {
+    if (arg.startsWith("/") || arg.includes("../") || arg.includes("..\\")) {
+      throw new PipelineValidationError(`Argument "${arg}" refers to a path outside the job's files`);
+    }
+    if (PROTOCOL.test(arg)) {
+      throw new PipelineValidationError(`Argument "${arg}" looks like a protocol URL, which is not allowed`);
+    }
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("-") && arg !== "-") {
+      if (FLAG_OPTIONS.has(arg)) continue;
+      if (FILE_OPTIONS.has(arg)) throw new PipelineValidationError(`Option "${arg}" is not allowed`);
+      const value = args[++i] ?? "";
+      if (arg === "-f") format = value;
+      if (arg === "-safe" && value !== "1" && lists) {
+        throw new PipelineValidationError("Concat lists can only name the job's own files (-safe 0 is not allowed)");
+      }
+      if (arg === "-i") {
+        if (!readable.has(value)) throw new PipelineValidationError(`Input "${value}" is not one of the job's declared files`);
+        if (format === "concat" && lists) checkConcatList(value, lists, readable);
+        format = undefined;
+      }
+      if (isFilterOption(arg)) checkFilterGraph(value, known);
+      if (arg === "-hls_segment_filename" && !isInDir(value, outputDir)) {
+        throw new PipelineValidationError(`HLS segments must be written into the job's output directory, not "${value}"`);
+      }
+      continue;
+    }
+    // Anything else is an output file ("-" is stdout, e.g. with -f null)
+    if (arg !== "-" && !writable.has(arg) && !isInDir(arg, outputDir) && !writable.has(firstOfSequence(arg))) {
+      throw new PipelineValidationError(`Output "${arg}" is not one of the job's declared files`);
+    }
+  }
+}
+
+function checkFilterGraph(raw: string, known: Set<string>) {
+  // Names may be quoted or escaped (movie='x.webm'); they are checked as ffmpeg will read them
+  const graph = unquote(raw, true);
+  if (ABSOLUTE_IN_FILTER_RE.test(raw) || ABSOLUTE_IN_FILTER_RE.test(graph)) {
+    throw new PipelineValidationError(`Filter graph "${raw}" refers to a path outside the job's files`);
+  }
+  for (const m of graph.matchAll(FILE_FILTER_RE)) {
+    if (m[3] !== "=" && !known.has(m[2])) throw new PipelineValidationError(`Filter ${m[1]} reads "${m[2]}", which is not one of the job's files`);
+  }
+  for (const m of graph.matchAll(FILE_KEY_RE)) {
+    const value = m[2].trim();
+    if (m[1] === "fontsdir" && value === ".") continue;
+    if (!known.has(value)) throw new PipelineValidationError(`Filter option ${m[1]} names "${value}", which is not one of the job's files`);
+  }
+}
+
+// Every `file` line of a concat list has to name one of the job's readable files
+function checkConcatList(name: string, inputs: ExecInput[], readable: Set<string>) {
+  const data = inputs.find((f) => f.name === name)?.data;
+  if (!(data instanceof ArrayBuffer)) {
+    throw new PipelineValidationError(`Concat list "${name}" must be passed as a buffer so it can be checked`);
+  }
+  for (const line of new TextDecoder().decode(data).split(/\r?\n/)) {
+    const m = /^\s*file\s+(.*?)\s*$/.exec(line);
+    if (!m) continue;
+    const file = unquote(m[1]);
+    if (!readable.has(file)) throw new PipelineValidationError(`Concat list "${name}" names "${file}", which is not one of the job's files`);
+  }
+}
+
+// "hls/stream_%v.m3u8" inside outputDir "hls"
+function isInDir(path: string, dir?: string): boolean {
+  return !!dir && path.startsWith(`${dir}/`) && isSafeFsName(path.slice(dir.length + 1).replace(/%/g, "p"));
+}
+
+// "frame_%03d.jpg" -> "frame_001.jpg", the first file of a sequence() output
+function firstOfSequence(pattern: string): string {
+  return pattern.replace(/%0(\d)d/, (_, width: string) => "1".padStart(Number(width), "0"));
+}
+
+// Options for one output file, in the order ffmpeg expects them (before the output name)
+export class OutputBuilder {
+  private args: string[] = [];
+  private vf: string[] = [];
+  private af: string[] = [];
+
+  videoFilter(...filters: string[]): this {
+    this.vf.push(...filters.filter(Boolean));
+    return this;
+  }
+
+  audioFilter(...filters: string[]): this {
+    this.af.push(...filters.filter(Boolean));
+    return this;
+  }
+
+  map(...specs: string[]): this {
+    specs.forEach((s) => this.args.push("-map", s));
+    return this;
+  }
+
+  videoCodec(codec: VideoCodec, opts: VideoCodecOptions = {}): this {
+    this.args.push("-c:v", codec);
+    if (opts.preset) this.args.push("-preset", opts.preset);
+    if (opts.crf !== undefined) this.args.push("-crf", String(opts.crf));
+    if (opts.bitrate) this.args.push("-b:v", opts.bitrate);
+    if (opts.pixFmt) this.args.push("-pix_fmt", opts.pixFmt);
+    return this;
+  }
+
+  audioCodec(codec: AudioCodec, opts: AudioCodecOptions = {}): this {
+    this.args.push("-c:a", codec);
+    if (opts.bitrate) this.args.push("-b:a", opts.bitrate);
+    if (opts.sampleRate) this.args.push("-ar", String(opts.sampleRate));
+    if (opts.channels) this.args.push("-ac", String(opts.channels));
+    return this;
+  }
+
+  // Stream copy of every stream (no re-encode)
+  copy(): this {
+    this.args.push("-c", "copy");
+    return this;
+  }
+
+  noVideo(): this {
+    this.args.push("-vn");
+    return this;
+  }
+
+  noAudio(): this {
+    this.args.push("-an");
+    return this;
+  }
+
+  frames(count: number): this {
+    this.args.push("-frames:v", String(count));
+    return this;
+  }
+
+  format(name: string): this {
+    this.args.push("-f", name);
+    return this;
+  }
+
+  // Raw options for cases the typed helpers don't cover (e.g. "-movflags", "+faststart")
+  options(...raw: string[]): this {
+    this.args.push(...raw);
+    return this;
+  }
+
+  /** @internal */
+  toArgs(): string[] {
+    const out = [...this.args];
+    if (this.vf.length) out.unshift("-vf", this.vf.join(","));
+    if (this.af.length) out.unshift("-af", this.af.join(","));
+    return out;
+  }
+}
+
+export class FfmpegPipeline {
+  private inputs: ExecInput[] = [];
+  private passes: string[][] = [];
+  private scratch: string[] = [];
+  private inputArgs: string[] = [];
+  private globalArgs: string[] = [];
+  private outputs: ExecOutput[] = [];
+  private outputArgs: string[] = [];
+  private outputDir?: string;
+
+  input(name: string, data: ExecInput["data"], opts: InputOptions = {}): this {
+    this.inputs.push({ name, data });
+    return this.ref(name, opts);
+  }
+
+  // An -i input that is already among the job's files (added with file() or written by a pass)
+  ref(name: string, opts: InputOptions = {}): this {
+    if (opts.seek !== undefined) this.inputArgs.push("-ss", String(opts.seek));
+    if (opts.duration !== undefined) this.inputArgs.push("-t", String(opts.duration));
+    if (opts.format) this.inputArgs.push("-f", opts.format);
+    if (opts.options) this.inputArgs.push(...opts.options);
+    this.inputArgs.push("-i", name);
+    return this;
+  }
+
+  // A file the graph reads by name (e.g. a concat list or font) without being an -i input
+  file(name: string, data: ExecInput["data"]): this {
+    this.inputs.push({ name, data });
+    return this;
+  }
+
+  // A separate ffmpeg run before the main one. Its outputs become scratch files the main run
+  // can ref(); anything it input()s is added to the job's files.
+  pass(configure: (pl: FfmpegPipeline) => FfmpegPipeline): this {
+    const sub = configure(new FfmpegPipeline());
+    this.inputs.push(...sub.inputs);
+    this.passes.push(...sub.passes, [...sub.inputArgs, ...sub.globalArgs, ...sub.outputArgs]);
+    this.scratch.push(...sub.scratch, ...sub.outputs.map((o) => o.name));
+    return this;
+  }
+
+  filterComplex(graph: string): this {
+    this.globalArgs.push("-filter_complex", graph);
+    return this;
+  }
+
+  output(name: string, mime: string, configure?: (o: OutputBuilder) => OutputBuilder): this {
+    const builder = configure ? configure(new OutputBuilder()) : new OutputBuilder();
+    this.outputs.push({ name, mime });
+    this.outputArgs.push(...builder.toArgs(), name);
+    return this;
+  }
+
+  // Numbered image output such as "frame_%03d.jpg". Declares up to `max` optional files
+  // (frame_001.jpg, frame_002.jpg, ...) since ffmpeg may write fewer.
+  sequence(pattern: string, max: number, mime: string, configure?: (o: OutputBuilder) => OutputBuilder): this {
+    const m = /%0(\d)d/.exec(pattern);
+    if (!m) throw new PipelineValidationError(`Sequence pattern "${pattern}" needs a %0Nd placeholder`);
+    const builder = configure ? configure(new OutputBuilder()) : new OutputBuilder();
+    for (let i = 1; i <= max; i++) {
+      this.outputs.push({ name: pattern.replace(m[0], String(i).padStart(Number(m[1]), "0")), mime, optional: true });
+    }
+    this.outputArgs.push(...builder.frames(max).toArgs(), pattern);
+    return this;
+  }
+
+  // Output into `dir` whose files are all returned, e.g. collect("hls", "stream_%v.m3u8", ...).
+  // `target` may be a pattern; the files ffmpeg derives from it land in the same directory.
+  collect(dir: string, target: string, configure?: (o: OutputBuilder, dir: string) => OutputBuilder): this {
+    const builder = configure ? configure(new OutputBuilder(), dir) : new OutputBuilder();
+    this.outputDir = dir;
+    this.outputArgs.push(...builder.toArgs(), `${dir}/${target}`);
+    return this;
+  }
+
+  build(opts?: ExecValidationOptions): ExecParams {
+    const params: ExecParams = {
+      inputs: this.inputs,
+      passes: this.passes,
+      args: [...this.inputArgs, ...this.globalArgs, ...this.outputArgs],
+      outputs: this.outputs,
+      scratch: this.scratch,
+      outputDir: this.outputDir,
+    };
+    validateExecParams(params, opts);
+    return params;
+  }
+}
+
+export function pipeline(): FfmpegPipeline {
+  return new FfmpegPipeline();
+}
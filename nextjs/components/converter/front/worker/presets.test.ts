@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  animationPipeline, concatPipeline, extractAudioPipeline, framesPipeline, hlsPipeline, previewPipeline,
+  snapshotPipeline, subtitlesPipeline, watermarkPipeline,
+} from "./presets";
+import { PipelineValidationError } from "./pipeline";
+
+const data = { id: "take", blob: new Blob([]) };
+const font = new ArrayBuffer(8);
+
+// Every preset is built through pipeline().build(), which runs validateExecParams
+describe("previewPipeline / snapshotPipeline", () => {
+  it("build MP4 and stream-copy previews and JPEG snapshots", () => {
+    expect(previewPipeline({ data, scaleHeight: 720 }).outputs[0].name).toBe("preview.mp4");
+    expect(previewPipeline({ data, toMp4: false }).outputs[0].name).toBe("preview.webm");
+    expect(snapshotPipeline({ data }).outputs[0].name).toBe("thumb.jpg");
+  });
+});
+
+describe("animationPipeline", () => {
+  it("encodes WebP in one run and GIF with a palette pass", () => {
+    expect(animationPipeline({ data, format: "webp" }).outputs[0].name).toBe("clip.webp");
+    const gif = animationPipeline({ data, format: "gif" });
+    expect(gif.passes).toHaveLength(1);
+    expect(gif.scratch).toEqual(["palette.png"]);
+  });
+});
+
+describe("extractAudioPipeline", () => {
+  it("builds every format", () => {
+    for (const format of ["mp3", "aac", "opus", "wav"] as const) {
+      expect(() => extractAudioPipeline({ data, format, loudnorm: {} })).not.toThrow();
+    }
+  });
+
+  it("rejects sample rates libopus can't encode", () => {
+    expect(() => extractAudioPipeline({ data, format: "opus", sampleRate: 44100 })).toThrow(PipelineValidationError);
+    expect(() => extractAudioPipeline({ data, format: "opus", sampleRate: 24000 })).not.toThrow();
+    expect(() => extractAudioPipeline({ data, format: "mp3", sampleRate: 44100 })).not.toThrow();
+  });
+});
+
+describe("framesPipeline", () => {
+  it("builds frame jobs and requires a duration for spaced frames", () => {
+    expect(framesPipeline({ data, mode: "interval", duration: 12, count: 4 }).outputs).toHaveLength(4);
+    expect(framesPipeline({ data, mode: "sheet", duration: 12 }).outputs).toHaveLength(1);
+    expect(framesPipeline({ data, mode: "scene", duration: NaN }).outputs).toHaveLength(10);
+    expect(() => framesPipeline({ data, mode: "interval", duration: NaN })).toThrow(PipelineValidationError);
+    expect(() => framesPipeline({ data, mode: "sheet", duration: 0 })).toThrow(/duration/);
+  });
+});
+
+describe("concatPipeline", () => {
+  const segments = [{ data, inputName: "a.webm", duration: 3 }, { data, inputName: "b.webm", duration: 3 }];
+
+  it("names mounted segments by path in the copy list", () => {
+    const copy = concatPipeline({ segments, mode: "copy" }, { "seg0.webm": "/mnt1/seg0.webm", "seg1.webm": "/mnt2/seg1.webm" });
+    expect(copy.args).toContain("-safe");
+    expect(() => concatPipeline({ segments: segments.slice(0, 1), mode: "copy" })).toThrow(PipelineValidationError);
+  });
+
+  it("builds normalized joins with crossfades", () => {
+    expect(() => concatPipeline({ segments, mode: "normalize", crossfade: 1 })).not.toThrow();
+    const shortLast = [segments[0], { ...segments[1], duration: 0.5 }];
+    expect(() => concatPipeline({ segments: shortLast, mode: "normalize", crossfade: 1 })).toThrow(PipelineValidationError);
+    const unknownLast = [segments[0], { ...segments[1], duration: undefined }];
+    expect(() => concatPipeline({ segments: unknownLast, mode: "normalize", crossfade: 1 })).toThrow(/duration/);
+  });
+});
+
+describe("watermarkPipeline", () => {
+  it("builds logo and text overlays", () => {
+    const logo = { data: new ArrayBuffer(8) };
+    expect(() => watermarkPipeline({ data, logo, text: { text: "50% off", timestamp: true } }, font)).not.toThrow();
+    expect(() => watermarkPipeline({ data, text: { text: "Hi" } })).toThrow(/font/);
+    expect(() => watermarkPipeline({ data })).toThrow(PipelineValidationError);
+  });
+
+  it("accepts ffmpeg colors and rejects anything else for text", () => {
+    for (const color of ["yellow", "#ff8800", "#FF880080", "0xff8800", "white@0.5", "black@0x80"]) {
+      expect(() => watermarkPipeline({ data, text: { text: "Hi", color } }, font)).not.toThrow();
+    }
+    for (const color of ["red:fontfile=/etc/passwd", "#ff88", "red@2", "white,format=gray"]) {
+      expect(() => watermarkPipeline({ data, text: { text: "Hi", color } }, font)).toThrow(/color/);
+    }
+  });
+});
+
+describe("subtitlesPipeline", () => {
+  const SRT = "1\n00:00:01,000 --> 00:00:02,000\nHello\n";
+
+  it("burns in with the bundled font or muxes a soft track", () => {
+    expect(subtitlesPipeline({ data, subtitles: SRT, mode: "burn" }, font).args.join(" ")).toContain("subtitles=subs.srt");
+    expect(subtitlesPipeline({ data, subtitles: SRT, mode: "soft", container: "webm", language: "eng" }).outputs[0].name).toBe("subtitled.webm");
+  });
+});
+
+describe("hlsPipeline", () => {
+  it("writes renditions and segments into the output directory", () => {
+    const renditions = [{ height: 360, videoBitrate: "800k" }, { height: 720, videoBitrate: "2500k" }];
+    expect(hlsPipeline({ data, renditions }).outputDir).toBe("hls");
+    expect(() => hlsPipeline({ data, renditions, segmentType: "fmp4" })).not.toThrow();
+    expect(() => hlsPipeline({ data, renditions: [] })).toThrow(PipelineValidationError);
+  });
+});
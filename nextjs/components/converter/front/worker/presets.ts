@@ -0,0 +1,400 @@
+// Purpose: Built-in jobs expressed as exec pipelines.
+// Preview and snapshot used to have their own hand-written argument lists in the worker;
+// now they are presets over the generic pipeline builder so every job runs the same way.
+
+import type {
+  AnimationParams, AudioFormat, ConcatParams, ExecParams, ExtractAudioParams, FramesParams, HlsParams, ImageFormat,
+  OverlayPosition, PreviewParams, SnapshotParams, SubtitleParams, WatermarkParams,
+} from "./workerMessages";
+import { AudioCodec, OutputBuilder, PipelineValidationError, pipeline } from "./pipeline";
+import { detectSubtitleFormat, parseSubtitles } from "./subtitles";
+
+export function scaleFilter(opts: { width?: number; height?: number }): string {
+  if (opts.width && opts.height) return `scale=${opts.width}:${opts.height}`;
+  if (opts.height) return `scale=-2:${opts.height}`;
+  if (opts.width) return `scale=${opts.width}:-2`;
+  return "";
+}
+
+export function previewPipeline(p: PreviewParams): ExecParams {
+  const inputName = p.inputName || "input.webm";
+  const scale = scaleFilter({ width: p.scaleWidth, height: p.scaleHeight });
+  const pl = pipeline().input(inputName, p.data, { seek: p.start ?? 0, duration: p.duration ?? 10 });
+
+  if (p.toMp4 !== false) {
+    // Universal path: H.264/AAC in MP4
+    return pl.output("preview.mp4", "video/mp4", (o) => o
+      .videoFilter(scale)
+      .videoCodec("libx264", { preset: p.preset ?? "veryfast", crf: p.crf ?? 28, pixFmt: "yuv420p" })
+      .audioCodec("aac", { bitrate: "128k" })
+      .options("-movflags", "+faststart"),
+    ).build();
+  }
+  // Fast path: keep container/codecs (works best for WebM)
+  return pl.output("preview.webm", "video/webm", (o) => o.videoFilter(scale).copy()).build();
+}
+
+export function snapshotPipeline(p: SnapshotParams): ExecParams {
+  const inputName = p.inputName || "input.webm";
+  return pipeline()
+    .input(inputName, p.data, { seek: p.at ?? 1 })
+    .output("thumb.jpg", "image/jpeg", (o) => o
+      .frames(1)
+      .options("-q:v", String(p.quality ?? 2))
+      .videoFilter(scaleFilter({ width: p.scaleWidth, height: p.scaleHeight })),
+    )
+    .build();
+}
+
+// GIF uses two passes: palettegen builds a 256-color palette from the clip, paletteuse maps frames
+// onto it. Far better colors than ffmpeg's default GIF palette. WebP is a single libwebp encode.
+export function animationPipeline(p: AnimationParams): ExecParams {
+  const inputName = p.inputName || "input.webm";
+  const trim = { seek: p.start ?? 0, duration: p.duration ?? 5 };
+  const frames = `fps=${p.fps ?? 12},scale=${p.width ?? 480}:-1:flags=lanczos`;
+  const plays = p.loop ?? 0;
+
+  if (p.format === "webp") {
+    return pipeline()
+      .input(inputName, p.data, trim)
+      .output("clip.webp", "image/webp", (o) => o
+        .videoFilter(frames)
+        .noAudio()
+        .videoCodec("libwebp")
+        .options("-lossless", "0", "-quality", String(p.quality ?? 75), "-loop", String(plays)),
+      )
+      .build();
+  }
+
+  // GIF loop field: 0 = forever, -1 = play once, N = repeat N more times
+  const gifLoop = plays === 0 ? 0 : plays === 1 ? -1 : plays - 1;
+  return pipeline()
+    .file(inputName, p.data)
+    .pass((pl) => pl
+      .ref(inputName, trim)
+      .output("palette.png", "image/png", (o) => o.videoFilter(frames, "palettegen=stats_mode=diff")))
+    .ref(inputName, trim)
+    .ref("palette.png")
+    .filterComplex(`[0:v]${frames}[x];[x][1:v]paletteuse=dither=${p.dither ?? "sierra2_4a"}`)
+    .output("clip.gif", "image/gif", (o) => o.options("-loop", String(gifLoop)))
+    .build();
+}
+
+const AUDIO_OUTPUTS: Record<AudioFormat, { name: string; mime: string; codec: AudioCodec }> = {
+  mp3: { name: "audio.mp3", mime: "audio/mpeg", codec: "libmp3lame" },
+  aac: { name: "audio.m4a", mime: "audio/mp4", codec: "aac" },
+  opus: { name: "audio.opus", mime: "audio/ogg", codec: "libopus" },
+  wav: { name: "audio.wav", mime: "audio/wav", codec: "pcm_s16le" },
+};
+
+// libopus only encodes at these rates
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+export function extractAudioPipeline(p: ExtractAudioParams): ExecParams {
+  const inputName = p.inputName || "input.webm";
+  const out = AUDIO_OUTPUTS[p.format];
+  if (p.format === "opus" && p.sampleRate !== undefined && !OPUS_SAMPLE_RATES.includes(p.sampleRate)) {
+    throw new PipelineValidationError(`Opus supports ${OPUS_SAMPLE_RATES.map((r) => r / 1000).join("/")} kHz, not ${p.sampleRate} Hz`);
+  }
+  const norm = p.loudnorm
+    ? `loudnorm=I=${p.loudnorm.integrated ?? -16}:TP=${p.loudnorm.truePeak ?? -1.5}:LRA=${p.loudnorm.range ?? 11}`
+    : "";
+  // loudnorm resamples to 192 kHz internally, so always pin the output rate when it is used
+  const sampleRate = p.sampleRate ?? (norm ? 48000 : undefined);
+
+  return pipeline()
+    .input(inputName, p.data, { seek: p.start, duration: p.duration })
+    .output(out.name, out.mime, (o) => {
+      o.noVideo()
+        .map("0:a:0")
+        .audioFilter(norm)
+        .audioCodec(out.codec, { bitrate: p.format === "wav" ? undefined : p.bitrate, sampleRate, channels: p.channels });
+      return p.format === "aac" ? o.options("-movflags", "+faststart") : o;
+    })
+    .build();
+}
+
+const IMAGE_OUTPUTS: Record<ImageFormat, { ext: string; mime: string }> = {
+  jpeg: { ext: "jpg", mime: "image/jpeg" },
+  webp: { ext: "webp", mime: "image/webp" },
+  png: { ext: "png", mime: "image/png" },
+};
+
+// quality is 0..100 for every format; JPEG wants qscale 31 (worst)..2 (best)
+function imageEncoding(o: OutputBuilder, format: ImageFormat, quality: number): OutputBuilder {
+  if (format === "jpeg") return o.options("-q:v", String(Math.round(31 - (quality / 100) * 29)));
+  if (format === "webp") return o.videoCodec("libwebp").options("-quality", String(quality));
+  return o;
+}
+
+export function framesPipeline(p: FramesParams): ExecParams {
+  const inputName = p.inputName || "input.webm";
+  const format = p.format ?? "jpeg";
+  const { ext, mime } = IMAGE_OUTPUTS[format];
+  const quality = p.quality ?? 80;
+  const scale = `scale=${p.width ?? 320}:-2`;
+  // Interval and sheet frames are spaced over the duration; a missing one would make fps=N/NaN
+  if (p.mode !== "scene" && !(Number.isFinite(p.duration) && p.duration > 0)) {
+    throw new PipelineValidationError("Interval and sheet frames need the media duration (probe the file first)");
+  }
+  const pl = pipeline().input(inputName, p.data);
+
+  if (p.mode === "sheet") {
+    const columns = p.columns ?? 4;
+    const rows = p.rows ?? 4;
+    // Sample exactly columns*rows frames over the whole file, then lay them out in one image
+    return pl.output(`sheet.${ext}`, mime, (o) => imageEncoding(o
+      .videoFilter(`fps=${columns * rows}/${p.duration}`, scale, `tile=${columns}x${rows}:padding=4:margin=4`)
+      .frames(1), format, quality),
+    ).build();
+  }
+
+  const count = p.count ?? 10;
+  if (p.mode === "scene") {
+    // First frame plus every frame whose scene score exceeds the threshold
+    const threshold = p.sceneThreshold ?? 0.3;
+    return pl.sequence(`scene_%03d.${ext}`, count, mime, (o) => imageEncoding(o
+      .videoFilter(`select='eq(n,0)+gt(scene,${threshold})'`, scale)
+      .options("-vsync", "vfr"), format, quality),
+    ).build();
+  }
+
+  return pl.sequence(`frame_%03d.${ext}`, count, mime, (o) => imageEncoding(o
+    .videoFilter(`fps=${count}/${p.duration}`, scale), format, quality),
+  ).build();
+}
+
+// `paths` maps segment names to where the worker mounted them; the concat list has to name them
+// by path since it's read by ffmpeg rather than passed as arguments.
+export function concatPipeline(p: ConcatParams, paths: Record<string, string> = {}): ExecParams {
+  const segs = p.segments;
+  if (segs.length < 2) throw new PipelineValidationError("Concat needs at least two segments");
+  const names = segs.map((seg, i) => `seg${i}.${extensionOf(seg.inputName)}`);
+
+  if (p.mode === "copy") {
+    if (p.crossfade) throw new PipelineValidationError("Crossfades need the normalize (re-encode) mode");
+    // Concat demuxer: a list file naming each segment, then one stream copy
+    const list = names.map((n) => `file '${paths[n] ?? n}'`).join("\n") + "\n";
+    const ext = extensionOf(segs[0].inputName);
+    const pl = pipeline();
+    segs.forEach((seg, i) => pl.file(names[i], seg.data));
+    // Absolute paths in the list are only accepted with -safe 0
+    const absolute = names.some((n) => paths[n]?.startsWith("/"));
+    return pl
+      .file("list.txt", new TextEncoder().encode(list).buffer as ArrayBuffer)
+      .ref("list.txt", { format: "concat", options: absolute ? ["-safe", "0"] : undefined })
+      .output(`joined.${ext}`, ext === "mp4" ? "video/mp4" : "video/webm", (o) => o.copy())
+      .build({ trustConcatLists: absolute });
+  }
+
+  const width = p.width ?? 1280;
+  const height = p.height ?? 720;
+  const sampleRate = p.sampleRate ?? 48000;
+  const fade = p.crossfade ?? 0;
+  // xfade/acrossfade overlap `fade` seconds of both neighbours, the last segment included
+  if (fade > 0 && segs.some((seg) => !seg.duration || seg.duration <= fade)) {
+    throw new PipelineValidationError("Crossfades need every segment's duration, longer than the crossfade");
+  }
+
+  const pl = pipeline();
+  const graph: string[] = [];
+  segs.forEach((seg, i) => {
+    pl.input(names[i], seg.data);
+    // Same frame size (letterboxed), pixel format, fps and timebase so segments can be joined
+    graph.push(`[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${p.fps ?? 30},format=yuv420p,settb=AVTB,setpts=PTS-STARTPTS[v${i}]`);
+    if (seg.hasAudio === false) {
+      if (!seg.duration) throw new PipelineValidationError(`Segment ${i + 1} has no audio and no known duration`);
+      graph.push(`anullsrc=r=${sampleRate}:cl=stereo,atrim=duration=${seg.duration}[a${i}]`);
+    } else {
+      graph.push(`[${i}:a]aresample=${sampleRate},aformat=sample_fmts=fltp:channel_layouts=stereo,asetpts=PTS-STARTPTS[a${i}]`);
+    }
+  });
+
+  if (fade > 0) {
+    // Each xfade starts `fade` seconds before the end of everything joined so far
+    let offset = 0;
+    let v = "v0";
+    let a = "a0";
+    for (let i = 1; i < segs.length; i++) {
+      offset += (segs[i - 1].duration ?? 0) - fade;
+      const last = i === segs.length - 1;
+      const vOut = last ? "v" : `vx${i}`;
+      const aOut = last ? "a" : `ax${i}`;
+      graph.push(`[${v}][v${i}]xfade=transition=fade:duration=${fade}:offset=${offset.toFixed(3)}[${vOut}]`);
+      graph.push(`[${a}][a${i}]acrossfade=d=${fade}[${aOut}]`);
+      v = vOut;
+      a = aOut;
+    }
+  } else {
+    graph.push(`${segs.map((_, i) => `[v${i}][a${i}]`).join("")}concat=n=${segs.length}:v=1:a=1[v][a]`);
+  }
+
+  return pl
+    .filterComplex(graph.join(";"))
+    .output("joined.mp4", "video/mp4", (o) => o
+      .map("[v]", "[a]")
+      .videoCodec("libx264", { preset: p.preset ?? "veryfast", crf: p.crf ?? 23, pixFmt: "yuv420p" })
+      .audioCodec("aac", { bitrate: "128k" })
+      .options("-movflags", "+faststart"),
+    )
+    .build();
+}
+
+function extensionOf(name: string | undefined): string {
+  const ext = name?.split(".").pop()?.toLowerCase();
+  return ext && /^[a-z0-9]{2,4}$/.test(ext) ? ext : "webm";
+}
+
+// x:y expressions for overlay (W/H = video, w/h = logo) and drawtext (w/h = video, tw/th = text)
+function placement(position: OverlayPosition, margin: number, kind: "overlay" | "drawtext"): { x: string; y: string } {
+  const [W, H, w, h] = kind === "overlay" ? ["W", "H", "w", "h"] : ["w", "h", "tw", "th"];
+  switch (position) {
+    case "top-left": return { x: `${margin}`, y: `${margin}` };
+    case "top-right": return { x: `${W}-${w}-${margin}`, y: `${margin}` };
+    case "bottom-left": return { x: `${margin}`, y: `${H}-${h}-${margin}` };
+    case "bottom-right": return { x: `${W}-${w}-${margin}`, y: `${H}-${h}-${margin}` };
+    case "center": return { x: `(${W}-${w})/2`, y: `(${H}-${h})/2` };
+  }
+}
+
+// drawtext expands %{...} sequences in text files; keep user text literal
+function escapeDrawtext(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/%/g, "\\%");
+}
+
+// ffmpeg color syntax: a name, #RRGGBB[AA] or 0xRRGGBB[AA], optionally @alpha. Anything else
+// could end the drawtext options early and inject filter options of its own.
+const COLOR_RE = /^(?:[a-zA-Z]+|(?:#|0x)[0-9a-fA-F]{6}(?:[0-9a-fA-F]{2})?)(?:@(?:0x[0-9a-fA-F]{2}|[01]|[01]?\.\d+))?$/;
+
+// `font` is required when params.text is set (fetched by the worker from params.fontURL)
+export function watermarkPipeline(p: WatermarkParams, font?: ArrayBuffer): ExecParams {
+  if (!p.logo && !p.text) throw new PipelineValidationError("Watermark needs a logo, a text overlay, or both");
+  const inputName = p.inputName || "input.webm";
+  const pl = pipeline().input(inputName, p.data);
+  const graph: string[] = [];
+  let video = "0:v";
+
+  if (p.logo) {
+    const { x, y } = placement(p.logo.position ?? "bottom-right", p.logo.margin ?? 16, "overlay");
+    pl.input("logo.png", p.logo.data);
+    // Size the logo relative to the video, then fade it with its alpha channel
+    graph.push(`[1:v][0:v]scale2ref=w=main_w*${p.logo.scale ?? 0.15}:h=ow/a[logo][base]`);
+    graph.push(`[logo]format=rgba,colorchannelmixer=aa=${p.logo.opacity ?? 0.8}[wm]`);
+    graph.push(`[base][wm]overlay=x=${x}:y=${y}[logoed]`);
+    video = "logoed";
+  }
+
+  if (p.text) {
+    if (!font) throw new PipelineValidationError("A font is required for text overlays");
+    const t = p.text;
+    const content = [t.text ? escapeDrawtext(t.text) : "", t.timestamp ? "%{pts:hms}" : ""].filter(Boolean).join("  ");
+    if (!content) throw new PipelineValidationError("Text overlay needs text or a timestamp");
+    const color = t.color ?? "white";
+    if (!COLOR_RE.test(color)) throw new PipelineValidationError(`Invalid text color "${color}"`);
+    const { x, y } = placement(t.position ?? "top-left", t.margin ?? 16, "drawtext");
+    // Text goes through a file so titles need no filtergraph escaping
+    pl.file("overlay.txt", new TextEncoder().encode(content).buffer as ArrayBuffer).file("font.ttf", font);
+    const box = t.box === false ? "" : ":box=1:boxcolor=black@0.5:boxborderw=8";
+    graph.push(`[${video}]drawtext=fontfile=font.ttf:textfile=overlay.txt:fontsize=${t.fontSize ?? 28}:fontcolor=${color}:x=${x}:y=${y}${box}[texted]`);
+    video = "texted";
+  }
+
+  return pl
+    .filterComplex(graph.join(";"))
+    .output("branded.mp4", "video/mp4", (o) => o
+      .map(`[${video}]`, "0:a?")
+      .videoCodec("libx264", { preset: p.preset ?? "veryfast", crf: p.crf ?? 23, pixFmt: "yuv420p" })
+      .audioCodec("aac", { bitrate: "128k" })
+      .options("-movflags", "+faststart"),
+    )
+    .build();
+}
+
+// Family name inside DEFAULT_FONT_URL; libass picks fonts by name from fontsdir
+const SUBTITLE_FONT_NAME = "Roboto";
+
+// Parses the subtitles first so malformed files fail with a SubtitleParseError, not an ffmpeg log.
+// `font` is required for burn-in (fetched by the worker from params.fontURL).
+export function subtitlesPipeline(p: SubtitleParams, font?: ArrayBuffer): ExecParams {
+  const format = p.subtitleFormat ?? detectSubtitleFormat(p.subtitles);
+  parseSubtitles(p.subtitles, format);
+  const inputName = p.inputName || "input.webm";
+  const subsName = `subs.${format}`;
+  const subs = new TextEncoder().encode(p.subtitles).buffer as ArrayBuffer;
+  const x264 = { preset: p.preset ?? "veryfast", crf: p.crf ?? 23, pixFmt: "yuv420p" };
+
+  if (p.mode === "burn") {
+    if (!font) throw new PipelineValidationError("A font is required to burn in subtitles");
+    const style = `FontName=${SUBTITLE_FONT_NAME},FontSize=${p.fontSize ?? 24}`;
+    return pipeline()
+      .input(inputName, p.data)
+      .file(subsName, subs)
+      .file("font.ttf", font)
+      .output("subtitled.mp4", "video/mp4", (o) => o
+        .videoFilter(`subtitles=${subsName}:fontsdir=.:force_style='${style}'`)
+        .videoCodec("libx264", x264)
+        .audioCodec("aac", { bitrate: "128k" })
+        .options("-movflags", "+faststart"),
+      )
+      .build();
+  }
+
+  // Soft track: keep the recording's streams when the container allows it, re-encode otherwise
+  const container = p.container ?? "mp4";
+  const copy = inputName.toLowerCase().endsWith(`.${container}`);
+  return pipeline()
+    .input(inputName, p.data)
+    .input(subsName, subs)
+    .output(`subtitled.${container}`, `video/${container}`, (o) => {
+      o.map("0:v", "0:a?", "1:s");
+      if (copy) o.options("-c:v", "copy", "-c:a", "copy");
+      else if (container === "mp4") o.videoCodec("libx264", x264).audioCodec("aac", { bitrate: "128k" });
+      else o.videoCodec("libvpx-vp9", { crf: p.crf ?? 32, bitrate: "0" }).audioCodec("libopus", { bitrate: "96k" });
+      o.options("-c:s", container === "mp4" ? "mov_text" : "webvtt");
+      if (p.language) o.options("-metadata:s:s:0", `language=${p.language}`);
+      return container === "mp4" ? o.options("-movflags", "+faststart") : o;
+    })
+    .build();
+}
+
+// One H.264 rendition per ladder rung from a split of the input, packaged by the hls muxer with
+// a master playlist. Keyframes are forced on segment boundaries so every rendition switches cleanly.
+export function hlsPipeline(p: HlsParams): ExecParams {
+  if (p.renditions.length === 0) throw new PipelineValidationError("HLS needs at least one rendition");
+  const inputName = p.inputName || "input.webm";
+  const audio = p.audio !== false;
+  const segment = p.segmentDuration ?? 4;
+  const fmp4 = p.segmentType === "fmp4";
+  const n = p.renditions.length;
+
+  const split = `[0:v]split=${n}${p.renditions.map((_, i) => `[s${i}]`).join("")}`;
+  const scales = p.renditions.map((r, i) => `[s${i}]scale=-2:${r.height}[v${i}]`);
+  const streamMap = p.renditions.map((r, i) => `v:${i}${audio ? `,a:${i}` : ""},name:${r.height}p`).join(" ");
+
+  return pipeline()
+    .input(inputName, p.data)
+    .filterComplex([split, ...scales].join(";"))
+    .collect("hls", "stream_%v.m3u8", (o, dir) => {
+      p.renditions.forEach((r, i) => {
+        o.map(`[v${i}]`);
+        if (audio) o.map("0:a:0");
+        o.options(`-c:v:${i}`, "libx264", `-b:v:${i}`, r.videoBitrate, `-maxrate:v:${i}`, r.videoBitrate, `-bufsize:v:${i}`, r.videoBitrate);
+        if (audio) o.options(`-c:a:${i}`, "aac", `-b:a:${i}`, r.audioBitrate ?? "128k");
+      });
+      o.options(
+        "-preset", p.preset ?? "veryfast",
+        "-pix_fmt", "yuv420p",
+        "-force_key_frames", `expr:gte(t,n_forced*${segment})`,
+        "-f", "hls",
+        "-hls_time", String(segment),
+        "-hls_playlist_type", "vod",
+        "-master_pl_name", "master.m3u8",
+        "-var_stream_map", streamMap,
+      );
+      if (fmp4) o.options("-hls_segment_type", "fmp4", "-hls_fmp4_init_filename", "init_%v.mp4", "-hls_segment_filename", `${dir}/stream_%v_%03d.m4s`);
+      else o.options("-hls_segment_filename", `${dir}/stream_%v_%03d.ts`);
+      return o;
+    })
+    .build();
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { parseLastTime, parseProbeLog, streamsMatch } from "./probe";
+
+const WEBM_LOG = [
+  "Input #0, matroska,webm, from 'input.webm':",
+  "  Metadata:",
+  "    encoder         : Chrome",
+  "  Duration: N/A, start: 0.000000, bitrate: N/A",
+  "  Stream #0:0(eng): Video: vp8, yuv420p(progressive), 640x480, SAR 1:1 DAR 4:3, 30 fps, 30 tbr, 1k tbn (default)",
+  "  Stream #0:1(eng): Audio: opus, 48000 Hz, stereo, fltp (default)",
+  "At least one output file must be specified",
+];
+
+const MP4_LOG = [
+  "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/mnt1/take.mp4':",
+  "  Duration: 00:01:05.50, start: 0.000000, bitrate: 2150 kb/s",
+  "  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709), 1280x720 [SAR 1:1 DAR 16:9], 2000 kb/s, 29.97 fps, 29.97 tbr, 30k tbn (default)",
+  "  Stream #0:1[0x2](und): Audio: aac (LC) (mp4a / 0x6134706D), 44100 Hz, 5.1(side), fltp, 128 kb/s (default)",
+];
+
+describe("parseProbeLog", () => {
+  it("reads container, streams and missing duration from MediaRecorder WebM", () => {
+    const info = parseProbeLog(WEBM_LOG)!;
+    expect(info.container).toBe("matroska,webm");
+    expect(info.duration).toBeUndefined();
+    expect(info.bitrate).toBeUndefined();
+    expect(info.streams).toEqual([
+      { index: 0, type: "video", codec: "vp8", width: 640, height: 480, fps: 30 },
+      { index: 1, type: "audio", codec: "opus", sampleRate: 48000, channels: 2 },
+    ]);
+  });
+
+  it("reads duration, bitrates and channel layouts from MP4", () => {
+    const info = parseProbeLog(MP4_LOG)!;
+    expect(info.duration).toBeCloseTo(65.5);
+    expect(info.bitrate).toBe(2_150_000);
+    expect(info.streams[0]).toMatchObject({ codec: "h264", width: 1280, height: 720, fps: 29.97, bitrate: 2_000_000 });
+    expect(info.streams[1]).toMatchObject({ codec: "aac", sampleRate: 44100, channels: 6, bitrate: 128_000 });
+  });
+
+  it("returns null without an input summary", () => {
+    expect(parseProbeLog(["input.webm: Invalid data found when processing input"])).toBeNull();
+  });
+});
+
+describe("parseLastTime", () => {
+  it("takes the last time= of a copy pass", () => {
+    const lines = [
+      "size=N/A time=00:00:02.00 bitrate=N/A speed=10x",
+      "size=N/A time=00:00:04.52 bitrate=N/A speed=12x",
+      "video:0kB audio:0kB",
+    ];
+    expect(parseLastTime(lines)).toBeCloseTo(4.52);
+    expect(parseLastTime(["nothing here"])).toBeUndefined();
+  });
+});
+
+describe("streamsMatch", () => {
+  it("compares container and per-stream formats", () => {
+    const a = parseProbeLog(WEBM_LOG)!;
+    const b = { ...a, duration: 12 };
+    expect(streamsMatch([a, b])).toBe(true);
+    expect(streamsMatch([a, parseProbeLog(MP4_LOG)!])).toBe(false);
+    expect(streamsMatch([a, { ...a, streams: [{ ...a.streams[0], width: 1280 }, a.streams[1]] }])).toBe(false);
+    expect(streamsMatch([a])).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+// Purpose: Turn ffmpeg's input summary (the log printed by `ffmpeg -i file`) into a typed MediaInfo.
+// ffmpeg.wasm ships without ffprobe, so the worker runs ffmpeg with no output and parses lines like
+//   Input #0, matroska,webm, from 'input.webm':
+//     Duration: 00:00:05.02, start: 0.000000, bitrate: 1234 kb/s
+//     Stream #0:0(eng): Video: vp8, yuv420p(progressive), 640x480, SAR 1:1 DAR 4:3, 30 fps, 30 tbr, 1k tbn
+//     Stream #0:1(eng): Audio: opus, 48000 Hz, stereo, fltp (default)
+// Pure functions: the worker hands over captured log lines; the hook compares probed files.
+
+import type { MediaInfo, MediaStreamInfo, MediaStreamType } from "./workerMessages";
+
+const INPUT_RE = /^\s*Input #0, (.+?), from '/;
+const DURATION_RE = /^\s*Duration: (N\/A|\d+:\d+:\d+(?:\.\d+)?)(?:, start: [^,]+)?, bitrate: (N\/A|\d+ kb\/s)/;
+const STREAM_RE = /^\s*Stream #0:(\d+)(?:\[[^\]]*\])?(?:\([^)]*\))?: (Video|Audio|Subtitle|Data): (.*)$/;
+const TIME_RE = /time=(\d+:\d+:\d+(?:\.\d+)?)/;
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  "2.1": 3,
+  "3.0": 3,
+  quad: 4,
+  "4.0": 4,
+  "5.0": 5,
+  "5.1": 6,
+  "6.1": 7,
+  "7.1": 8,
+};
+
+// Returns null when the log has no input summary (unreadable or unsupported file)
+export function parseProbeLog(lines: string[]): MediaInfo | null {
+  let info: MediaInfo | null = null;
+  for (const line of lines) {
+    const input = INPUT_RE.exec(line);
+    if (input) {
+      info = { container: input[1], streams: [] };
+      continue;
+    }
+    if (!info) continue;
+
+    const duration = DURATION_RE.exec(line);
+    if (duration) {
+      info.duration = parseTimestamp(duration[1]);
+      info.bitrate = parseKbps(duration[2]);
+      continue;
+    }
+
+    const stream = STREAM_RE.exec(line);
+    if (stream) info.streams.push(parseStream(Number(stream[1]), stream[2].toLowerCase() as MediaStreamType, stream[3]));
+  }
+  return info;
+}
+
+// Last "time=" reported while ffmpeg processed the file, in seconds
+export function parseLastTime(lines: string[]): number | undefined {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const m = TIME_RE.exec(lines[i]);
+    if (m) return parseTimestamp(m[1]);
+  }
+  return undefined;
+}
+
+function parseStream(index: number, type: MediaStreamType, details: string): MediaStreamInfo {
+  const stream: MediaStreamInfo = { index, type, codec: /^([^\s,(]+)/.exec(details)?.[1] ?? "unknown" };
+  const kbps = /(\d+) kb\/s/.exec(details);
+  if (kbps) stream.bitrate = Number(kbps[1]) * 1000;
+
+  if (type === "video") {
+    const size = /\b(\d{2,5})x(\d{2,5})\b/.exec(details);
+    if (size) {
+      stream.width = Number(size[1]);
+      stream.height = Number(size[2]);
+    }
+    const fps = /([\d.]+) fps/.exec(details) ?? /([\d.]+) tbr/.exec(details);
+    if (fps) stream.fps = Number(fps[1]);
+  } else if (type === "audio") {
+    const rate = /(\d+) Hz/.exec(details);
+    if (rate) stream.sampleRate = Number(rate[1]);
+    const layout = /Hz, ([^,]+)/.exec(details)?.[1].trim();
+    if (layout) stream.channels = parseChannels(layout);
+  }
+  return stream;
+}
+
+function parseChannels(layout: string): number | undefined {
+  const explicit = /^(\d+) channels/.exec(layout);
+  if (explicit) return Number(explicit[1]);
+  return CHANNEL_LAYOUTS[layout.replace(/\(.*\)$/, "")];
+}
+
+function parseTimestamp(value: string): number | undefined {
+  if (value === "N/A") return undefined;
+  const [h, m, s] = value.split(":").map(Number);
+  return h * 3600 + m * 60 + s;
+}
+
+function parseKbps(value: string): number | undefined {
+  if (value === "N/A") return undefined;
+  return parseInt(value, 10) * 1000;
+}
+
+// True when files can be joined by stream copy: same container and the same codec, frame size,
+// fps and audio format for each stream position
+export function streamsMatch(infos: MediaInfo[]): boolean {
+  if (infos.length < 2) return true;
+  const signature = (info: MediaInfo) => JSON.stringify([
+    info.container,
+    info.streams.map((st) => [st.type, st.codec, st.width, st.height, st.fps, st.sampleRate, st.channels]),
+  ]);
+  const first = signature(infos[0]);
+  return infos.every((info) => signature(info) === first);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { detectSubtitleFormat, parseSubtitles, SubtitleParseError } from "./subtitles";
+
+describe("detectSubtitleFormat", () => {
+  it("detects WebVTT by its header, with or without a BOM", () => {
+    expect(detectSubtitleFormat("WEBVTT\n\n00:01.000 --> 00:02.000\nHi")).toBe("vtt");
+    expect(detectSubtitleFormat("\uFEFFWEBVTT")).toBe("vtt");
+    expect(detectSubtitleFormat("1\n00:00:01,000 --> 00:00:02,000\nHi")).toBe("srt");
+  });
+});
+
+describe("parseSubtitles", () => {
+  it("parses SRT with CRLF line endings and multi-line cues", () => {
+    const srt = "1\r\n00:00:01,000 --> 00:00:03,500\r\nHello\r\nworld\r\n\r\n2\r\n01:00:00,000 --> 01:00:01,250\r\nBye\r\n";
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 3.5, text: "Hello\nworld" },
+      { start: 3600, end: 3601.25, text: "Bye" },
+    ]);
+  });
+
+  it("parses WebVTT with identifiers, settings, short timestamps and NOTE blocks", () => {
+    const vtt = "WEBVTT - title\n\nNOTE this is ignored\nstill ignored\n\nintro\n00:01.000 --> 00:02.000 align:start\nHi\n\n01:00:00.000 --> 01:00:02.000\nLater\n";
+    expect(parseSubtitles(vtt)).toEqual([
+      { start: 1, end: 2, text: "Hi" },
+      { start: 3600, end: 3602, text: "Later" },
+    ]);
+  });
+
+  it("reports the offending line", () => {
+    const cases: [string, RegExp][] = [
+      ["1\n00:00:01.000 --> 00:00:02.000\nHi\n", /line 2: expected a timing line/],
+      ["x\n00:00:01,000 --> 00:00:02,000\nHi\n", /line 1: expected a cue number/],
+      ["1\n00:00:02,000 --> 00:00:01,000\nHi\n", /line 2: cue ends before it starts/],
+      ["1\n00:00:01,000 --> 00:00:02,000\n\n", /line 1: cue has no text/],
+      ["00:01.000 --> 00:02.000\nHi\n", /line 1: WebVTT files must start/],
+    ];
+    for (const [source, message] of cases) {
+      const format = source.startsWith("00:01") ? "vtt" : "srt";
+      expect(() => parseSubtitles(source, format)).toThrow(message);
+    }
+  });
+
+  it("rejects files without cues", () => {
+    expect(() => parseSubtitles("\n\n")).toThrow(SubtitleParseError);
+    expect(() => parseSubtitles("WEBVTT\n")).toThrow(/no cues/);
+  });
+});
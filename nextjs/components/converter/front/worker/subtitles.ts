@@ -0,0 +1,80 @@
+// Purpose: Minimal SRT/WebVTT parser and validator for the subtitles job.
+// ffmpeg reports broken subtitle files as generic demuxer failures, so cues are checked here first
+// and problems come back as SubtitleParseError with the offending line number.
+// Dependency-free: used by the worker before anything is written to the ffmpeg FS.
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+export class SubtitleParseError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line ? `Subtitles, line ${line}: ${message}` : `Subtitles: ${message}`);
+    this.name = "SubtitleParseError";
+  }
+}
+
+// SRT uses a comma before milliseconds, VTT a dot; VTT may omit the hours
+const SRT_TIMING = /^(\d{1,2}):(\d{2}):(\d{2}),(\d{3})\s+-->\s+(\d{1,2}):(\d{2}):(\d{2}),(\d{3})\s*$/;
+const VTT_TIMING = /^(?:(\d{1,2}):)?(\d{2}):(\d{2})\.(\d{3})\s+-->\s+(?:(\d{1,2}):)?(\d{2}):(\d{2})\.(\d{3})(?:\s+.*)?$/;
+
+export function detectSubtitleFormat(source: string): SubtitleFormat {
+  return /^\uFEFF?WEBVTT/.test(source) ? "vtt" : "srt";
+}
+
+// Throws SubtitleParseError on the first malformed cue; an empty file is an error too
+export function parseSubtitles(source: string, format: SubtitleFormat = detectSubtitleFormat(source)): SubtitleCue[] {
+  const lines = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const cues: SubtitleCue[] = [];
+  let i = 0;
+
+  if (format === "vtt") {
+    if (!/^WEBVTT(?:[ \t].*)?$/.test(lines[0] ?? "")) throw new SubtitleParseError('WebVTT files must start with "WEBVTT"', 1);
+    i = 1;
+  }
+
+  while (i < lines.length) {
+    if (lines[i].trim() === "") { i++; continue; }
+    const blockStart = i;
+
+    // VTT NOTE/STYLE/REGION blocks carry no cues
+    if (format === "vtt" && /^(NOTE|STYLE|REGION)\b/.test(lines[i])) {
+      while (i < lines.length && lines[i].trim() !== "") i++;
+      continue;
+    }
+
+    // Optional identifier (required numeric index in SRT, free text in VTT)
+    if (!lines[i].includes("-->")) {
+      if (format === "srt" && !/^\d+$/.test(lines[i].trim())) {
+        throw new SubtitleParseError(`expected a cue number, got "${lines[i].trim()}"`, i + 1);
+      }
+      i++;
+    }
+
+    const timing = (format === "srt" ? SRT_TIMING : VTT_TIMING).exec(lines[i] ?? "");
+    if (!timing) {
+      const example = format === "srt" ? "00:00:01,000 --> 00:00:03,500" : "00:01.000 --> 00:03.500";
+      throw new SubtitleParseError(`expected a timing line like "${example}"`, i + 1);
+    }
+    const start = toSeconds(timing.slice(1, 5));
+    const end = toSeconds(timing.slice(5, 9));
+    if (end <= start) throw new SubtitleParseError("cue ends before it starts", i + 1);
+    i++;
+
+    const text: string[] = [];
+    while (i < lines.length && lines[i].trim() !== "") text.push(lines[i++]);
+    if (text.length === 0) throw new SubtitleParseError("cue has no text", blockStart + 1);
+    cues.push({ start, end, text: text.join("\n") });
+  }
+
+  if (cues.length === 0) throw new SubtitleParseError("no cues found");
+  return cues;
+}
+
+function toSeconds([h, m, s, ms]: (string | undefined)[]): number {
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms) / 1000;
+}
@@ -1,125 +1,332 @@
-// Purpose: React hook that manages the FFmpeg Web Worker lifecycle and exposes
-// a simple API to load the core (optionally from cache), create a 10s preview, and extract a snapshot.
-// It also reports progress and logs for UI.
+// Purpose: React hook that manages a pool of FFmpeg Web Workers and exposes
+// a simple API to load the core (optionally from cache), create a 10s preview, extract a snapshot,
+// export an animated GIF/WebP clip, extract the audio track or a set of frames/contact sheet,
+// join several takes into one video, burn in a logo/text watermark, add subtitles, package HLS, probe a file for its streams, or run a generic exec pipeline built with pipeline() from pipeline.ts.
+// Every request becomes a job with its own ID: the call returns a promise of its result file(s),
+// and the hook keeps a list of queued/running/finished jobs with parsed progress (speed, ETA) and a
+// bounded log per job for UI.
+// Jobs run in parallel on up to `poolSize` workers (see workerPool.ts); `progress` is their average.
+// Files are sent as Blobs and mounted read-only in the worker, never copied into an ArrayBuffer here.
 
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { WorkerCommand, WorkerEvent, PreviewParams, SnapshotParams } from "./workerMessages";
-import { getCoreBlobURLsFromCache } from "../cacheFfmpeg";
+import type { AnimationParams, BlobInput, ConcatParams, HlsParams, LogoOverlay, SubtitleParams, WatermarkParams, ExecParams, ExtractAudioParams, FramesParams, JobId, JobKind, JobProgress, JobRequest, MediaInfo, MemfsUsage, PreviewParams, CoreURLs, SnapshotParams } from "./workerMessages";
+import { CoreVariant, getCoreBlobURLsFromCache } from "../cacheFfmpeg";
+import { streamsMatch } from "./probe";
+import { createHlsPackage, HlsPackage, revokeHlsPackage } from "./hls";
+import { FfmpegWorkerPool, PoolEvent, WorkerPoolOptions } from "./workerPool";
+import { LogRing, parseStatsLine } from "./ffmpegLog";
+import { HeapUsage, measureHeap } from "./memory";
 
 // Lightweight state shape for the worker controller
-export type WorkerStatus = "idle" | "loading" | "ready" | "working" | "canceled" | "error";
+export type WorkerStatus = "idle" | "loading" | "ready" | "working" | "canceled" | "timedOut" | "error";
+
+export type JobStatus = "queued" | "running" | "done" | "error" | "canceled" | "timedOut";
+
+export interface JobInfo {
+  id: JobId;
+  kind: JobKind;
+  status: JobStatus;
+  progress: number; // 0..1
+  stats?: JobProgress; // latest parsed status line: speed, fps, ETA, ...
+  position?: number; // place in the worker queue while queued (0 = next)
+  error?: string; // what went wrong, phrased as what to change
+  errorDetail?: string; // the ffmpeg log line the error was recognized from
+  memory?: JobMemory; // once done
+  createdAt: number;
+}
+
+// MEMFS bytes come from the worker; the heap is measured once the job is done, where the browser can
+export interface JobMemory {
+  memfs: MemfsUsage;
+  heap?: HeapUsage;
+}
+
+export interface JobOptions {
+  priority?: number; // higher runs first, default 0
+  timeoutMs?: number; // running time allowed before the job fails with JobTimeoutError
+}
+
+export interface ResultFile {
+  name: string;
+  mime: string;
+  blob: Blob;
+}
+
+// Normalize target and transitions for concat; the copy path is chosen automatically when possible
+export type ConcatOptions = Partial<Omit<ConcatParams, "segments" | "mode">> & JobOptions & {
+  reencode?: boolean; // force the normalize path even when the files match
+};
+
+export type WatermarkOptions = Omit<WatermarkParams, "data" | "logo"> & JobOptions & {
+  logo?: Omit<LogoOverlay, "data"> & { image: Blob }; // PNG
+};
 
 export interface UseFfmpegWorkerState {
   status: WorkerStatus;
-  progress: number; // 0..1
-  time?: number; // processed time in seconds (approx reported by ffmpeg)
+  loaded: boolean; // core is loaded in at least one worker
+  coreVariant?: CoreVariant; // which core loaded: "mt" only on cross-origin isolated pages
+  progress: number; // 0..1 averaged over queued and running jobs
+  time?: number; // processed time in seconds of the job that reported last (approx reported by ffmpeg)
   lastLog?: string;
   error?: string;
   previewUrl?: string; // object URL to processed preview
   snapshotUrl?: string; // object URL to processed image
+  animationUrl?: string; // object URL to the last GIF/WebP clip
+  hlsPackage?: HlsPackage; // last HLS package, with object URLs for a local player
+  jobs: JobInfo[]; // most recent last; finished jobs are kept up to MAX_FINISHED_JOBS
 }
 
 export interface UseFfmpegWorkerApi extends UseFfmpegWorkerState {
   loadCore: (opts?: { preferCache?: boolean }) => Promise<void>;
-  makePreview: (file: Blob, opts?: Omit<PreviewParams, "data">) => Promise<void>;
-  makeSnapshot: (file: Blob, opts?: Omit<SnapshotParams, "data">) => Promise<void>;
-  cancel: () => void;
+  makePreview: (file: Blob, opts?: Omit<PreviewParams, "data"> & JobOptions) => Promise<Blob>;
+  makeSnapshot: (file: Blob, opts?: Omit<SnapshotParams, "data"> & JobOptions) => Promise<Blob>;
+  makeAnimation: (file: Blob, opts?: Partial<Omit<AnimationParams, "data">> & JobOptions) => Promise<Blob>;
+  extractAudio: (file: Blob, opts?: Partial<Omit<ExtractAudioParams, "data">> & JobOptions) => Promise<Blob>;
+  // Without `duration`, interval/sheet modes probe the file first to space the frames
+  extractFrames: (file: Blob, opts?: Partial<Omit<FramesParams, "data">> & JobOptions) => Promise<ResultFile[]>;
+  // Probes every file first; stream copy when they match, otherwise re-encode to the first one's size
+  concat: (files: Blob[], opts?: ConcatOptions) => Promise<Blob>;
+  watermark: (file: Blob, opts: WatermarkOptions) => Promise<Blob>;
+  // `subtitles` is the SRT/WebVTT file; a malformed one rejects with a message naming the line
+  addSubtitles: (file: Blob, subtitles: Blob | string, opts?: Partial<Omit<SubtitleParams, "data" | "subtitles">> & JobOptions) => Promise<Blob>;
+  // Probes for an audio track unless opts.audio is given
+  packageHls: (file: Blob, opts?: Partial<Omit<HlsParams, "data">> & JobOptions) => Promise<HlsPackage>;
+  // Input buffers are transferred to the worker and become unusable on this side; pass large
+  // files as blobInput(file) so they are mounted instead
+  exec: (params: ExecParams, opts?: JobOptions) => Promise<ResultFile[]>;
+  probe: (file: Blob, opts?: { inputName?: string } & JobOptions) => Promise<MediaInfo>;
+  getJobLog: (jobId: JobId) => string[]; // last LOG_LINES_PER_JOB lines, oldest first
+  cancel: (jobId?: JobId) => void; // no jobId: cancel every running job
   terminate: () => void;
 }
 
-export function useFfmpegWorker(): UseFfmpegWorkerApi {
-  const workerRef = useRef<Worker | null>(null);
-  const [state, setState] = useState<UseFfmpegWorkerState>({ status: "idle", progress: 0 });
+const MAX_FINISHED_JOBS = 20;
+const LOG_LINES_PER_JOB = 200;
+// Logs outlive their job's entry a little; beyond this the oldest are dropped
+const MAX_JOB_LOGS = MAX_FINISHED_JOBS * 2;
+
+const DEFAULT_HLS_LADDER: HlsParams["renditions"] = [
+  { height: 360, videoBitrate: "800k", audioBitrate: "96k" },
+  { height: 720, videoBitrate: "2800k" },
+];
+
+const INITIAL_STATE: UseFfmpegWorkerState = { status: "idle", loaded: false, progress: 0, jobs: [] };
+
+interface JobOutput {
+  files: ResultFile[];
+  info?: MediaInfo;
+}
+
+interface PendingJob {
+  resolve: (output: JobOutput) => void;
+  reject: (err: Error) => void;
+}
+
+export class JobCanceledError extends Error {
+  constructor(jobId: JobId) {
+    super(`Job ${jobId} was canceled`);
+    this.name = "JobCanceledError";
+  }
+}
+
+export class JobTimeoutError extends Error {
+  constructor(jobId: JobId, timeoutMs: number) {
+    super(`Job ${jobId} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "JobTimeoutError";
+  }
+}
+
+export interface UseFfmpegWorkerOptions {
+  poolSize?: number; // workers running jobs in parallel; default from CPU cores and memory
+  memoryBudgetMb?: number; // caps the default pool size at one worker per 512 MB
+}
+
+export function useFfmpegWorker(options?: UseFfmpegWorkerOptions): UseFfmpegWorkerApi {
+  const poolRef = useRef<FfmpegWorkerPool | null>(null);
+  const poolOptionsRef = useRef<WorkerPoolOptions>({ size: options?.poolSize, memoryBudgetMb: options?.memoryBudgetMb });
+  const coreURLsRef = useRef<Promise<CoreURLs | undefined> | null>(null);
+  const [state, setState] = useState<UseFfmpegWorkerState>(INITIAL_STATE);
   const previewUrlRef = useRef<string | null>(null);
   const snapshotUrlRef = useRef<string | null>(null);
+  const animationUrlRef = useRef<string | null>(null);
+  const hlsPackageRef = useRef<HlsPackage | null>(null);
+  const pendingRef = useRef<Map<JobId, PendingJob>>(new Map());
+  const logsRef = useRef<Map<JobId, LogRing>>(new Map());
+
+  // Update one job and derive the overall status from what is still active
+  const updateJob = useCallback((jobId: JobId, patch: Partial<JobInfo>, extra?: Partial<UseFfmpegWorkerState>) => {
+    setState((s) => {
+      const jobs = pruneJobs(s.jobs.map((j) => (j.id === jobId ? { ...j, ...patch } : j)));
+      const active = jobs.some((j) => j.status === "queued" || j.status === "running");
+      const status: WorkerStatus = active
+        ? "working"
+        : patch.status === "canceled" || patch.status === "timedOut" || patch.status === "error" ? patch.status : "ready";
+      return { ...s, ...extra, jobs, status };
+    });
+  }, []);
 
-  // Create worker lazily
-  const ensureWorker = useCallback(() => {
+  const settle = useCallback((jobId: JobId, outcome: { output: JobOutput } | { error: Error }) => {
+    const pending = pendingRef.current.get(jobId);
+    if (!pending) return;
+    pendingRef.current.delete(jobId);
+    if ("output" in outcome) pending.resolve(outcome.output);
+    else pending.reject(outcome.error);
+  }, []);
+
+  // Create the pool lazily; its workers are started as jobs need them
+  const ensurePool = useCallback(() => {
     if (typeof window === "undefined") return null;
-    if (workerRef.current) return workerRef.current;
-    const w = new Worker(new URL("./ffmpegWorker.ts", import.meta.url), { type: "module" });
-    w.onmessage = (ev: MessageEvent<WorkerEvent>) => {
-      const msg = ev.data;
+    if (poolRef.current) return poolRef.current;
+    const onEvent = (msg: PoolEvent) => {
+      if (msg.type === "aggregate") {
+        setState((s) => ({ ...s, progress: msg.payload.ratio }));
+        return;
+      }
       if (msg.type === "loaded") {
-        setState((s) => ({ ...s, status: "ready" }));
+        setState((s) => ({ ...s, loaded: true, coreVariant: msg.payload.variant, status: s.status === "loading" ? "ready" : s.status }));
+        return;
+      }
+      if (msg.type === "queued") {
+        updateJob(msg.jobId, { status: "queued", position: msg.position });
+        return;
+      }
+      if (msg.type === "started") {
+        updateJob(msg.jobId, { status: "running", position: undefined }, { time: undefined });
         return;
       }
       if (msg.type === "progress") {
-        setState((s) => ({ ...s, progress: msg.payload.ratio ?? 0, time: msg.payload.time }));
+        const ratio = msg.payload.ratio ?? 0;
+        setState((s) => ({
+          ...s,
+          time: msg.payload.time,
+          jobs: s.jobs.map((j) => (j.id === msg.jobId ? { ...j, progress: ratio, stats: msg.payload } : j)),
+        }));
         return;
       }
       if (msg.type === "log") {
+        // Status lines are already in the job's stats; keeping them would flush the rest out
+        if (msg.jobId && !parseStatsLine(msg.payload.message)) logsRef.current.get(msg.jobId)?.push(msg.payload.message);
         setState((s) => ({ ...s, lastLog: msg.payload.message }));
         return;
       }
       if (msg.type === "result") {
-        const blob = new Blob([msg.payload.data], { type: msg.payload.mime });
-        const url = URL.createObjectURL(blob);
+        const memfs = msg.payload.memfs;
+        const done: Partial<JobInfo> = { status: "done", progress: 1, memory: memfs && { memfs } };
+        const files = msg.payload.files.map((f) => ({ name: f.name, mime: f.mime, blob: new Blob([f.data], { type: f.mime }) }));
         if (msg.payload.kind === "preview") {
+          const url = URL.createObjectURL(files[0].blob);
           if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
           previewUrlRef.current = url;
-          setState((s) => ({ ...s, status: "ready", progress: 1, previewUrl: url }));
+          updateJob(msg.jobId, done, { previewUrl: url });
         } else if (msg.payload.kind === "snapshot") {
+          const url = URL.createObjectURL(files[0].blob);
           if (snapshotUrlRef.current) URL.revokeObjectURL(snapshotUrlRef.current);
           snapshotUrlRef.current = url;
-          setState((s) => ({ ...s, status: "ready", progress: 1, snapshotUrl: url }));
+          updateJob(msg.jobId, done, { snapshotUrl: url });
+        } else if (msg.payload.kind === "animation") {
+          const url = URL.createObjectURL(files[0].blob);
+          if (animationUrlRef.current) URL.revokeObjectURL(animationUrlRef.current);
+          animationUrlRef.current = url;
+          updateJob(msg.jobId, done, { animationUrl: url });
+        } else {
+          updateJob(msg.jobId, done);
+        }
+        settle(msg.jobId, { output: { files, info: msg.payload.info } });
+        if (memfs) {
+          void measureHeap().then((heap) => {
+            if (heap) setState((s) => ({ ...s, jobs: s.jobs.map((j) => (j.id === msg.jobId ? { ...j, memory: { memfs, heap } } : j)) }));
+          });
         }
         return;
       }
       if (msg.type === "canceled") {
-        setState((s) => ({ ...s, status: "canceled", progress: 0 }));
+        updateJob(msg.jobId, { status: "canceled" });
+        settle(msg.jobId, { error: new JobCanceledError(msg.jobId) });
+        return;
+      }
+      if (msg.type === "timedOut") {
+        const error = new JobTimeoutError(msg.jobId, msg.payload.timeoutMs);
+        updateJob(msg.jobId, { status: "timedOut", error: error.message }, { error: error.message });
+        settle(msg.jobId, { error });
         return;
       }
       if (msg.type === "terminated") {
-        setState({ status: "idle", progress: 0 });
+        setState(INITIAL_STATE);
         return;
       }
       if (msg.type === "error") {
-        setState((s) => ({ ...s, status: "error", error: msg.payload.message }));
+        if (msg.jobId) {
+          updateJob(msg.jobId, { status: "error", error: msg.payload.message, errorDetail: msg.payload.detail }, { error: msg.payload.message });
+          settle(msg.jobId, { error: new Error(msg.payload.message) });
+        } else {
+          setState((s) => ({ ...s, status: "error", error: msg.payload.message }));
+        }
         return;
       }
     };
-    workerRef.current = w;
-    return w;
-  }, []);
+    poolRef.current = new FfmpegWorkerPool(onEvent, poolOptionsRef.current);
+    return poolRef.current;
+  }, [updateJob, settle]);
 
   // Cleanup URLs on unmounting
   useEffect(() => {
+    const pending = pendingRef.current;
     return () => {
       if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
       if (snapshotUrlRef.current) URL.revokeObjectURL(snapshotUrlRef.current);
-      workerRef.current?.terminate?.();
-      workerRef.current = null;
+      if (animationUrlRef.current) URL.revokeObjectURL(animationUrlRef.current);
+      if (hlsPackageRef.current) revokeHlsPackage(hlsPackageRef.current);
+      poolRef.current?.terminate();
+      poolRef.current = null;
+      pending.forEach((p, id) => p.reject(new JobCanceledError(id)));
+      pending.clear();
     };
   }, []);
 
+  // The cached core is read into blob URLs once; every worker in the pool loads from the same URLs
   const loadCore = useCallback(async (opts?: { preferCache?: boolean }) => {
-    const w = ensureWorker();
-    if (!w) return;
+    const pool = ensurePool();
+    if (!pool) return;
     setState((s) => ({ ...s, status: "loading", progress: 0, error: undefined }));
 
-    let payload: { coreURL?: string; wasmURL?: string } | undefined = undefined;
-    if (opts?.preferCache !== false) {
-      const cached = await getCoreBlobURLsFromCache();
-      if (cached) payload = cached;
+    if (opts?.preferCache === false) {
+      pool.load(undefined);
+      return;
     }
+    coreURLsRef.current ??= getCoreBlobURLsFromCache().then((cached) => cached ?? undefined);
+    const urls = await coreURLsRef.current;
+    if (!urls) coreURLsRef.current = null; // not cached yet; look again next time
+    pool.load(urls);
+  }, [ensurePool]);
 
-    const cmd: WorkerCommand = { type: "load", payload };
-    w.postMessage(cmd);
-  }, [ensureWorker]);
+  // Register a job, post it to the worker and return a promise of its result files
+  const submit = useCallback((job: JobRequest, opts: JobOptions | undefined, transfer: Transferable[]) => {
+    const pool = ensurePool();
+    if (!pool) return Promise.reject(new Error("FFmpeg worker is not available in this environment"));
+    const jobId = createJobId();
+    const info: JobInfo = { id: jobId, kind: job.kind, status: "queued", progress: 0, createdAt: Date.now() };
+    const logs = logsRef.current;
+    logs.set(jobId, new LogRing(LOG_LINES_PER_JOB));
+    for (const id of logs.keys()) {
+      if (logs.size <= MAX_JOB_LOGS) break;
+      logs.delete(id);
+    }
+    setState((s) => ({ ...s, status: "working", error: undefined, jobs: pruneJobs([...s.jobs, info]) }));
 
-  const makePreview = useCallback(async (file: Blob, opts?: Omit<PreviewParams, "data">) => {
-    const w = ensureWorker();
-    if (!w) return;
-    if (state.status === "working") return;
-    setState((s) => ({ ...s, status: "working", progress: 0, error: undefined }));
+    const promise = new Promise<JobOutput>((resolve, reject) => {
+      pendingRef.current.set(jobId, { resolve, reject });
+    });
+    pool.enqueue(jobId, job, { priority: opts?.priority, timeoutMs: opts?.timeoutMs }, transfer);
+    return promise;
+  }, [ensurePool]);
 
-    const data = await file.arrayBuffer();
-    const cmd: WorkerCommand = {
-      type: "preview",
-      payload: {
+  const makePreview = useCallback(async (file: Blob, opts?: Omit<PreviewParams, "data"> & JobOptions) => {
+    const data = blobInput(file);
+    return submit({
+      kind: "preview",
+      params: {
         data,
         inputName: opts?.inputName ?? inferInputName(file),
         start: opts?.start ?? 0,
@@ -130,20 +337,14 @@ export function useFfmpegWorker(): UseFfmpegWorkerApi {
         crf: opts?.crf ?? 28,
         preset: opts?.preset ?? "veryfast",
       },
-    };
-    w.postMessage(cmd, [data as unknown as ArrayBuffer]);
-  }, [ensureWorker, state.status]);
-
-  const makeSnapshot = useCallback(async (file: Blob, opts?: Omit<SnapshotParams, "data">) => {
-    const w = ensureWorker();
-    if (!w) return;
-    if (state.status === "working") return;
-    setState((s) => ({ ...s, status: "working", progress: 0, error: undefined }));
-
-    const data = await file.arrayBuffer();
-    const cmd: WorkerCommand = {
-      type: "snapshot",
-      payload: {
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const makeSnapshot = useCallback(async (file: Blob, opts?: Omit<SnapshotParams, "data"> & JobOptions) => {
+    const data = blobInput(file);
+    return submit({
+      kind: "snapshot",
+      params: {
         data,
         inputName: opts?.inputName ?? inferInputName(file),
         at: opts?.at ?? 1,
@@ -151,34 +352,242 @@ export function useFfmpegWorker(): UseFfmpegWorkerApi {
         scaleWidth: opts?.scaleWidth,
         quality: opts?.quality ?? 2,
       },
-    };
-    w.postMessage(cmd, [data as unknown as ArrayBuffer]);
-  }, [ensureWorker, state.status]);
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const makeAnimation = useCallback(async (file: Blob, opts?: Partial<Omit<AnimationParams, "data">> & JobOptions) => {
+    const data = blobInput(file);
+    return submit({
+      kind: "animation",
+      params: {
+        data,
+        inputName: opts?.inputName ?? inferInputName(file),
+        format: opts?.format ?? "gif",
+        start: opts?.start ?? 0,
+        duration: opts?.duration ?? 5,
+        fps: opts?.fps ?? 12,
+        width: opts?.width ?? 480,
+        loop: opts?.loop ?? 0,
+        dither: opts?.dither,
+        quality: opts?.quality,
+      },
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const extractAudio = useCallback(async (file: Blob, opts?: Partial<Omit<ExtractAudioParams, "data">> & JobOptions) => {
+    const data = blobInput(file);
+    return submit({
+      kind: "extractAudio",
+      params: {
+        data,
+        inputName: opts?.inputName ?? inferInputName(file),
+        format: opts?.format ?? "mp3",
+        start: opts?.start,
+        duration: opts?.duration,
+        bitrate: opts?.bitrate ?? "128k",
+        sampleRate: opts?.sampleRate,
+        channels: opts?.channels,
+        loudnorm: opts?.loudnorm,
+      },
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const probe = useCallback(async (file: Blob, opts?: { inputName?: string } & JobOptions) => {
+    const data = blobInput(file);
+    const out = await submit({ kind: "probe", params: { data, inputName: opts?.inputName ?? inferInputName(file) } }, opts, []);
+    if (!out.info) throw new Error("Probe finished without media info");
+    return out.info;
+  }, [submit]);
+
+  const extractFrames = useCallback(async (file: Blob, opts?: Partial<Omit<FramesParams, "data">> & JobOptions) => {
+    const mode = opts?.mode ?? "interval";
+    let duration = opts?.duration;
+    if (duration === undefined && mode !== "scene") {
+      duration = (await probe(file, { inputName: opts?.inputName, priority: opts?.priority })).duration;
+      if (!duration) throw new Error("Could not determine the media duration to space frames");
+    }
+    const data = blobInput(file);
+    return submit({
+      kind: "frames",
+      params: {
+        data,
+        inputName: opts?.inputName ?? inferInputName(file),
+        mode,
+        duration: duration ?? 0,
+        count: opts?.count,
+        sceneThreshold: opts?.sceneThreshold,
+        columns: opts?.columns,
+        rows: opts?.rows,
+        width: opts?.width,
+        format: opts?.format,
+        quality: opts?.quality,
+      },
+    }, opts, []).then((out) => out.files);
+  }, [submit, probe]);
+
+  const concat = useCallback(async (files: Blob[], opts?: ConcatOptions) => {
+    if (files.length < 2) throw new Error("Select at least two recordings to join");
+    const infos = await Promise.all(files.map((file) => probe(file, { priority: opts?.priority })));
+
+    const sameType = files.every((f) => f.type === files[0].type);
+    const mode = !opts?.reencode && !opts?.crossfade && sameType && streamsMatch(infos) ? "copy" : "normalize";
+    const firstVideo = infos[0].streams.find((st) => st.type === "video");
+    const segments = files.map((file, i) => ({
+      data: blobInput(file),
+      inputName: inferInputName(file),
+      duration: infos[i].duration,
+      hasAudio: infos[i].streams.some((st) => st.type === "audio"),
+    }));
+
+    return submit({
+      kind: "concat",
+      params: {
+        segments,
+        mode,
+        // libx264 needs even dimensions
+        width: opts?.width ?? (firstVideo?.width ? firstVideo.width - (firstVideo.width % 2) : undefined),
+        height: opts?.height ?? (firstVideo?.height ? firstVideo.height - (firstVideo.height % 2) : undefined),
+        fps: opts?.fps ?? (firstVideo?.fps ? Math.min(60, Math.round(firstVideo.fps)) : undefined),
+        sampleRate: opts?.sampleRate,
+        crossfade: opts?.crossfade,
+        crf: opts?.crf,
+        preset: opts?.preset,
+      },
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit, probe]);
 
-  const cancel = useCallback(() => {
-    const w = ensureWorker();
-    if (!w) return;
-    const cmd: WorkerCommand = { type: "cancel" };
-    w.postMessage(cmd);
-  }, [ensureWorker]);
+  const watermark = useCallback(async (file: Blob, opts: WatermarkOptions) => {
+    const data = blobInput(file);
+    let logo: LogoOverlay | undefined;
+    if (opts.logo) {
+      const { image, ...placement } = opts.logo;
+      logo = { ...placement, data: await image.arrayBuffer() };
+    }
+    return submit({
+      kind: "watermark",
+      params: {
+        data,
+        inputName: opts.inputName ?? inferInputName(file),
+        logo,
+        text: opts.text,
+        fontURL: opts.fontURL,
+        crf: opts.crf ?? 23,
+        preset: opts.preset ?? "veryfast",
+      },
+    }, opts, logo ? [logo.data] : []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const addSubtitles = useCallback(async (file: Blob, subtitles: Blob | string, opts?: Partial<Omit<SubtitleParams, "data" | "subtitles">> & JobOptions) => {
+    const data = blobInput(file);
+    return submit({
+      kind: "subtitles",
+      params: {
+        data,
+        inputName: opts?.inputName ?? inferInputName(file),
+        subtitles: typeof subtitles === "string" ? subtitles : await subtitles.text(),
+        subtitleFormat: opts?.subtitleFormat,
+        mode: opts?.mode ?? "soft",
+        container: opts?.container,
+        language: opts?.language,
+        fontURL: opts?.fontURL,
+        fontSize: opts?.fontSize,
+        crf: opts?.crf,
+        preset: opts?.preset,
+      },
+    }, opts, []).then((out) => out.files[0].blob);
+  }, [submit]);
+
+  const packageHls = useCallback(async (file: Blob, opts?: Partial<Omit<HlsParams, "data">> & JobOptions) => {
+    const inputName = opts?.inputName ?? inferInputName(file);
+    const audio = opts?.audio ?? (await probe(file, { inputName, priority: opts?.priority })).streams.some((st) => st.type === "audio");
+    const data = blobInput(file);
+    const out = await submit({
+      kind: "hls",
+      params: {
+        data,
+        inputName,
+        renditions: opts?.renditions ?? DEFAULT_HLS_LADDER,
+        segmentType: opts?.segmentType,
+        segmentDuration: opts?.segmentDuration,
+        audio,
+        preset: opts?.preset,
+      },
+    }, opts, []);
+
+    const pkg = await createHlsPackage(out.files);
+    if (hlsPackageRef.current) revokeHlsPackage(hlsPackageRef.current);
+    hlsPackageRef.current = pkg;
+    setState((s) => ({ ...s, hlsPackage: pkg }));
+    return pkg;
+  }, [submit, probe]);
+
+  const exec = useCallback((params: ExecParams, opts?: JobOptions) => {
+    const buffers = params.inputs.map((i) => i.data).filter((d): d is ArrayBuffer => d instanceof ArrayBuffer);
+    return submit({ kind: "exec", params }, opts, [...new Set(buffers)]).then((out) => out.files);
+  }, [submit]);
+
+  const getJobLog = useCallback((jobId: JobId) => logsRef.current.get(jobId)?.toArray() ?? [], []);
+
+  const cancel = useCallback((jobId?: JobId) => {
+    ensurePool()?.cancel(jobId);
+  }, [ensurePool]);
 
   const terminate = useCallback(() => {
-    const w = ensureWorker();
-    if (!w) return;
-    const cmd: WorkerCommand = { type: "terminate" };
-    w.postMessage(cmd);
-    w.terminate();
-    workerRef.current = null;
-  }, [ensureWorker]);
+    const pool = poolRef.current;
+    if (!pool) return;
+    pool.terminate();
+    poolRef.current = null;
+    // The workers are gone before they can report; fail whatever was still pending
+    pendingRef.current.forEach((p, id) => p.reject(new JobCanceledError(id)));
+    pendingRef.current.clear();
+    setState(INITIAL_STATE);
+  }, []);
 
   return useMemo(() => ({
     ...state,
     loadCore,
     makePreview,
     makeSnapshot,
+    makeAnimation,
+    extractAudio,
+    extractFrames,
+    concat,
+    watermark,
+    addSubtitles,
+    packageHls,
+    exec,
+    probe,
+    getJobLog,
     cancel,
     terminate,
-  }), [state, loadCore, makePreview, makeSnapshot, cancel, terminate]);
+  }), [state, loadCore, makePreview, makeSnapshot, makeAnimation, extractAudio, extractFrames, concat, watermark, addSubtitles, packageHls, exec, probe, getJobLog, cancel, terminate]);
+}
+
+// Same id for the same Blob, so the worker mounts it once for every queued job that reads it
+const blobIds = new WeakMap<Blob, string>();
+let blobCounter = 0;
+export function blobInput(blob: Blob): BlobInput {
+  let id = blobIds.get(blob);
+  if (!id) {
+    blobCounter += 1;
+    id = `blob-${blobCounter}`;
+    blobIds.set(blob, id);
+  }
+  return { id, blob };
+}
+
+let jobCounter = 0;
+function createJobId(): JobId {
+  jobCounter += 1;
+  return `job-${Date.now().toString(36)}-${jobCounter}`;
+}
+
+// Keep every active job, but only the latest finished ones
+function pruneJobs(jobs: JobInfo[]): JobInfo[] {
+  const finished = jobs.filter((j) => j.status !== "queued" && j.status !== "running");
+  if (finished.length <= MAX_FINISHED_JOBS) return jobs;
+  const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map((j) => j.id));
+  return jobs.filter((j) => !drop.has(j.id));
 }
 
 // Infer a reasonable virtual filename from a Blob's type
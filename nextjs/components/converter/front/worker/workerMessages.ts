@@ -1,16 +1,51 @@
 // Purpose: Define message types between main thread and the FFmpeg Web Worker.
 // Keep this file tiny and dependency-free so it can be imported by both sides.
+// Every job carries a jobId (chosen by the main thread) so events can be matched to requests.
+
+import type { CoreVariant } from "../cacheFfmpeg/ffmpegCoreConfig";
+
+export type JobId = string;
+
+// Where to load the core from (usually blob: URLs from Cache Storage). Without URLs, or when the
+// multi-threaded core can't run here, the worker downloads the best variant itself.
+export interface CoreURLs {
+  variant?: CoreVariant; // which core the URLs point at; "st" when omitted
+  coreURL?: string;
+  wasmURL?: string;
+  workerURL?: string; // "mt" only
+}
+
+// What a job does; the worker runs jobs one at a time from a priority FIFO queue.
+export type JobRequest =
+  | { kind: "preview"; params: PreviewParams }
+  | { kind: "snapshot"; params: SnapshotParams }
+  | { kind: "animation"; params: AnimationParams }
+  | { kind: "extractAudio"; params: ExtractAudioParams }
+  | { kind: "frames"; params: FramesParams }
+  | { kind: "concat"; params: ConcatParams }
+  | { kind: "watermark"; params: WatermarkParams }
+  | { kind: "subtitles"; params: SubtitleParams }
+  | { kind: "hls"; params: HlsParams }
+  // Arbitrary ffmpeg run over declared inputs/outputs; build params with pipeline() from pipeline.ts
+  | { kind: "exec"; params: ExecParams }
+  // Read container/stream info; the result carries `info` and no files
+  | { kind: "probe"; params: ProbeParams };
+
+export type JobKind = JobRequest["kind"];
 
 export type WorkerCommand =
-  | { type: "load"; payload?: { coreURL?: string; wasmURL?: string } }
-  | { type: "preview"; payload: PreviewParams }
-  | { type: "snapshot"; payload: SnapshotParams }
-  | { type: "cancel" }
+  | { type: "load"; payload?: CoreURLs }
+  // Higher priority runs first; equal priorities run in submission order. Default 0.
+  // timeoutMs limits the running time (not the time queued); no timeout by default.
+  | { type: "enqueue"; jobId: JobId; priority?: number; timeoutMs?: number; job: JobRequest }
+  // Without jobId: cancel the running job. Between ffmpeg runs this keeps the core loaded;
+  // in the middle of one the core is reloaded in the background.
+  | { type: "cancel"; jobId?: JobId }
   | { type: "terminate" };
 
 export interface PreviewParams {
   // Raw binary of the recorded file
-  data: ArrayBuffer;
+  data: BlobInput;
   // File name hint (only for FFmpeg virtual FS naming); extension can help
   inputName?: string; // e.g. 'input.webm'
   // Start position for trimming (seconds)
@@ -29,7 +64,7 @@ export interface PreviewParams {
 }
 
 export interface SnapshotParams {
-  data: ArrayBuffer;
+  data: BlobInput;
   inputName?: string;
   at?: number; // seconds, default 1
   scaleWidth?: number; // e.g., 1280
@@ -37,11 +72,237 @@ export interface SnapshotParams {
   quality?: number; // JPEG qscale 2..31, default 2 (best)
 }
 
+export type GifDither = "bayer" | "heckbert" | "floyd_steinberg" | "sierra2" | "sierra2_4a" | "none";
+
+export interface AnimationParams {
+  data: BlobInput;
+  inputName?: string;
+  format: "gif" | "webp";
+  start?: number; // seconds, default 0
+  duration?: number; // seconds, default 5
+  fps?: number; // default 12
+  width?: number; // px, height keeps aspect ratio; default 480
+  loop?: number; // 0 = loop forever (default), N = play N times
+  dither?: GifDither; // GIF only, default "sierra2_4a"
+  quality?: number; // WebP only, 0..100, default 75
+}
+
+export type AudioFormat = "mp3" | "aac" | "opus" | "wav";
+
+// EBU R128 targets for ffmpeg's loudnorm filter
+export interface LoudnormOptions {
+  integrated?: number; // LUFS, default -16
+  truePeak?: number; // dBTP, default -1.5
+  range?: number; // LU, default 11
+}
+
+export interface ExtractAudioParams {
+  data: BlobInput;
+  inputName?: string;
+  format: AudioFormat; // aac is written as .m4a
+  start?: number; // seconds, default 0 (whole file)
+  duration?: number; // seconds, default until the end
+  bitrate?: string; // e.g. "128k"; ignored for wav
+  sampleRate?: number; // Hz; opus only accepts 8/12/16/24/48 kHz
+  channels?: number; // 1 = mono, 2 = stereo
+  loudnorm?: LoudnormOptions; // set (even to {}) to normalize loudness
+}
+
+export type ImageFormat = "jpeg" | "webp" | "png";
+
+export interface FramesParams {
+  data: BlobInput;
+  inputName?: string;
+  // interval: `count` evenly spaced frames; scene: up to `count` frames at scene changes;
+  // sheet: one tiled image of columns x rows evenly spaced frames
+  mode: "interval" | "scene" | "sheet";
+  duration: number; // seconds of media, used to space frames (interval/sheet); see probe
+  count?: number; // interval/scene, default 10
+  sceneThreshold?: number; // scene only, 0..1, default 0.3
+  columns?: number; // sheet only, default 4
+  rows?: number; // sheet only, default 4
+  width?: number; // px per frame (tile width for sheets), default 320
+  format?: ImageFormat; // default jpeg
+  quality?: number; // 0..100, default 80; ignored for png
+}
+
+export interface ConcatSegment {
+  data: BlobInput;
+  inputName?: string; // extension matters for the copy path, e.g. "take1.webm"
+  duration?: number; // seconds; needed for crossfades and for segments without audio
+  hasAudio?: boolean; // default true; silent audio is generated for segments without it
+}
+
+export interface ConcatParams {
+  segments: ConcatSegment[]; // in playback order, at least two
+  // copy: concat demuxer with stream copy, only valid when every segment has the same codecs,
+  // resolution and fps; normalize: re-encode each segment to one size/fps/sample rate first
+  mode: "copy" | "normalize";
+  width?: number; // normalize only, default 1280
+  height?: number; // normalize only, default 720
+  fps?: number; // normalize only, default 30
+  sampleRate?: number; // normalize only, default 48000
+  crossfade?: number; // seconds of video/audio crossfade between segments; normalize only
+  crf?: number; // normalize only, default 23
+  preset?: PreviewParams["preset"]; // normalize only, default "veryfast"
+}
+
+export type OverlayPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right" | "center";
+
+export interface LogoOverlay {
+  data: ArrayBuffer; // PNG, transparency is kept
+  position?: OverlayPosition; // default "bottom-right"
+  margin?: number; // px from the edges, default 16
+  opacity?: number; // 0..1, default 0.8
+  scale?: number; // logo width as a fraction of the video width, default 0.15
+}
+
+export interface TextOverlay {
+  text?: string; // e.g. a title; rendered literally
+  timestamp?: boolean; // append the running position as hh:mm:ss.mmm
+  position?: OverlayPosition; // default "top-left"
+  margin?: number; // px, default 16
+  fontSize?: number; // px, default 28
+  color?: string; // ffmpeg color, default "white"
+  box?: boolean; // semi-transparent box behind the text, default true
+}
+
+// Encoding follows the preview's MP4 settings (crf/preset)
+export interface WatermarkParams extends Pick<PreviewParams, "inputName" | "crf" | "preset"> {
+  data: BlobInput;
+  logo?: LogoOverlay;
+  text?: TextOverlay;
+  fontURL?: string; // TTF used for text, default DEFAULT_FONT_URL from fonts.ts
+}
+
+export interface SubtitleParams extends Pick<PreviewParams, "inputName" | "crf" | "preset"> {
+  data: BlobInput;
+  subtitles: string; // SRT or WebVTT source text, validated before ffmpeg runs
+  subtitleFormat?: "srt" | "vtt"; // detected from the text when omitted
+  // burn: render into the picture (always re-encodes); soft: add a selectable subtitle track
+  mode: "burn" | "soft";
+  container?: "mp4" | "webm"; // soft only: mov_text in MP4 or WebVTT in WebM, default mp4
+  language?: string; // soft only, ISO 639-2 code such as "eng"
+  fontURL?: string; // burn only, default DEFAULT_FONT_URL from fonts.ts
+  fontSize?: number; // burn only, default 24
+}
+
+export interface HlsRendition {
+  height: number; // e.g. 360, 720; width keeps the aspect ratio
+  videoBitrate: string; // e.g. "800k"
+  audioBitrate?: string; // default "128k"
+}
+
+export interface HlsParams extends Pick<PreviewParams, "inputName" | "preset"> {
+  data: BlobInput;
+  renditions: HlsRendition[]; // the ladder, lowest first
+  segmentType?: "ts" | "fmp4"; // default ts
+  segmentDuration?: number; // seconds, default 4
+  audio?: boolean; // default true; false for recordings without an audio track
+}
+
+// A recording or other large input. The worker mounts the Blob read-only (WORKERFS) instead of
+// copying it into memory; `id` is the same for the same Blob, so jobs queued on one Blob share a mount.
+export interface BlobInput {
+  id: string;
+  blob: Blob;
+}
+
+// A file the job reads: buffers are written into its scratch space, Blobs are mounted.
+// Arguments that equal a mounted input's name are pointed at the mount by the worker.
+export interface ExecInput {
+  name: string; // plain file name, no directories
+  data: ArrayBuffer | BlobInput;
+}
+
+// A file read back after ffmpeg finishes; missing outputs fail the job unless optional
+export interface ExecOutput {
+  name: string;
+  mime: string;
+  optional?: boolean; // e.g. numbered frames when ffmpeg may write fewer than the cap
+}
+
+export interface ExecParams {
+  inputs: ExecInput[];
+  // Earlier ffmpeg runs, in order, before `args` (e.g. a palettegen pass); they write `scratch` files
+  passes?: string[][];
+  args: string[]; // full ffmpeg argument list, referencing inputs/outputs by name
+  outputs: ExecOutput[];
+  scratch?: string[]; // intermediate files written by passes; deleted with everything else
+  // Directory created before the run; every file ffmpeg writes into it is returned after the
+  // declared outputs (for outputs whose count isn't known up front, like HLS segments)
+  outputDir?: string;
+}
+
+export interface OutputFile {
+  name: string;
+  mime: string;
+  data: ArrayBuffer;
+}
+
+export interface ProbeParams {
+  data: BlobInput;
+  inputName?: string;
+}
+
+export type MediaStreamType = "video" | "audio" | "subtitle" | "data";
+
+export interface MediaStreamInfo {
+  index: number;
+  type: MediaStreamType;
+  codec: string; // e.g. "vp8", "h264", "opus"
+  width?: number;
+  height?: number;
+  fps?: number;
+  sampleRate?: number; // Hz
+  channels?: number;
+  bitrate?: number; // bits per second, when ffmpeg reports it
+}
+
+export interface MediaInfo {
+  container: string; // ffmpeg demuxer name, e.g. "matroska,webm" or "mov,mp4,m4a,3gp,3g2,mj2"
+  duration?: number; // seconds; undefined only if it could not be determined at all
+  bitrate?: number; // overall, bits per second
+  streams: MediaStreamInfo[];
+}
+
+// What a job kept in the worker's in-memory FS (MEMFS, which lives in the wasm heap) while it ran:
+// the inputs copied into it and the outputs read back. Mounted inputs are read in place from their
+// Blobs, cost no heap, and are counted apart.
+export interface MemfsUsage {
+  inputBytes: number; // buffers written into MEMFS (subtitles, fonts, logos, lists, unmountable Blobs)
+  outputBytes: number; // files read back from MEMFS
+  mountedBytes: number; // Blob inputs read through WORKERFS
+}
+
+export interface JobResult {
+  kind: JobKind;
+  files: OutputFile[]; // in the order the outputs were declared
+  info?: MediaInfo; // probe jobs only
+  memfs?: MemfsUsage;
+}
+
+// Parsed from ffmpeg's status lines (see ffmpegLog.ts); only `ratio` is always present
+export interface JobProgress {
+  ratio: number; // 0..1 of the output duration when known, else ffmpeg.wasm's own estimate
+  time?: number; // seconds of output written
+  frame?: number;
+  fps?: number;
+  bitrate?: number; // kbit/s
+  speed?: number; // encode speed as a multiple of real time
+  eta?: number; // seconds left, when the output duration and speed are known
+}
+
 export type WorkerEvent =
-  | { type: "loaded" }
-  | { type: "progress"; payload: { ratio: number; time?: number } }
-  | { type: "log"; payload: { message: string } }
-  | { type: "result"; payload: { kind: "preview"|"snapshot"; name: string; mime: string; data: ArrayBufferLike } }
-  | { type: "error"; payload: { message: string } }
-  | { type: "canceled" }
+  | { type: "loaded"; payload: { variant: CoreVariant } } // the core that actually loaded
+  | { type: "queued"; jobId: JobId; position: number } // position 0 = next to run
+  | { type: "started"; jobId: JobId }
+  | { type: "progress"; jobId: JobId; payload: JobProgress }
+  | { type: "log"; jobId?: JobId; payload: { message: string } }
+  | { type: "result"; jobId: JobId; payload: JobResult }
+  // Without jobId: a failure outside any job (e.g. loading the core)
+  // `detail` is the ffmpeg log line the message was derived from, when there is one
+  | { type: "error"; jobId?: JobId; payload: { message: string; detail?: string } }
+  | { type: "canceled"; jobId: JobId }
+  | { type: "timedOut"; jobId: JobId; payload: { timeoutMs: number } }
   | { type: "terminated" };
@@ -0,0 +1,198 @@
+// Purpose: Run jobs on several FFmpeg Web Workers at once.
+// The pool keeps the priority FIFO queue on the main thread and hands a job to a worker only when
+// that worker is idle, so each worker runs one job at a time and a slow job never blocks the rest.
+// Workers are created on demand up to `size`; each loads the core from the same (cached) URLs.
+// Events keep the WorkerEvent shape so consumers don't care how many workers there are; an extra
+// "aggregate" event reports the combined progress of everything queued or running.
+
+import type { CoreURLs, JobId, JobRequest, WorkerCommand, WorkerEvent } from "./workerMessages";
+
+export type PoolEvent =
+  | WorkerEvent
+  | { type: "aggregate"; payload: { ratio: number; running: number; queued: number } };
+
+export interface WorkerPoolOptions {
+  size?: number; // default from defaultPoolSize()
+  memoryBudgetMb?: number; // used for the default size only
+}
+
+interface PoolJob {
+  jobId: JobId;
+  priority: number;
+  seq: number;
+  timeoutMs?: number;
+  job: JobRequest;
+  transfer: Transferable[];
+}
+
+interface PoolWorker {
+  worker: Worker;
+  jobId: JobId | null; // job it is running, null when idle
+}
+
+// Rough peak for one ffmpeg.wasm instance working on a few minutes of 720p
+const MB_PER_WORKER = 512;
+const MAX_POOL_SIZE = 4;
+
+// One worker per spare core, limited by how many instances fit the memory budget.
+// Without a budget, half of navigator.deviceMemory (Chromium only) or 1 GB is assumed.
+export function defaultPoolSize(memoryBudgetMb?: number): number {
+  if (typeof navigator === "undefined") return 1;
+  const cores = Math.max(1, (navigator.hardwareConcurrency || 2) - 1);
+  const deviceMemoryGb = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const budget = memoryBudgetMb ?? (deviceMemoryGb ? (deviceMemoryGb * 1024) / 2 : 1024);
+  const byMemory = Math.max(1, Math.floor(budget / MB_PER_WORKER));
+  return Math.min(MAX_POOL_SIZE, cores, byMemory);
+}
+
+export class FfmpegWorkerPool {
+  readonly size: number;
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private seq = 0;
+  private coreURLs?: CoreURLs;
+  private progress = new Map<JobId, number>(); // running and queued jobs only
+
+  constructor(private readonly onEvent: (event: PoolEvent) => void, opts: WorkerPoolOptions = {}) {
+    this.size = Math.max(1, opts.size ?? defaultPoolSize(opts.memoryBudgetMb));
+  }
+
+  // Remember the core URLs for workers created later and load them in the existing ones.
+  // With no workers yet, one is started so the first job doesn't wait for the core.
+  load(urls?: CoreURLs) {
+    this.coreURLs = urls;
+    if (this.workers.length === 0) this.spawn();
+    else this.workers.forEach((w) => this.send(w, { type: "load", payload: urls }));
+  }
+
+  enqueue(jobId: JobId, job: JobRequest, opts: { priority?: number; timeoutMs?: number }, transfer: Transferable[]) {
+    this.queue.push({ jobId, priority: opts.priority ?? 0, seq: this.seq++, timeoutMs: opts.timeoutMs, job, transfer });
+    this.progress.set(jobId, 0);
+    this.dispatch();
+  }
+
+  // Without jobId: cancel every running job (there may be one per worker)
+  cancel(jobId?: JobId) {
+    const idx = jobId ? this.queue.findIndex((q) => q.jobId === jobId) : -1;
+    if (idx >= 0) {
+      this.queue.splice(idx, 1);
+      this.finish(jobId!);
+      this.onEvent({ type: "canceled", jobId: jobId! });
+      this.reportPositions();
+      return;
+    }
+    this.workers
+      .filter((w) => w.jobId && (!jobId || w.jobId === jobId))
+      .forEach((w) => this.send(w, { type: "cancel", jobId: w.jobId! }));
+  }
+
+  terminate() {
+    this.queue.splice(0).forEach((q) => this.onEvent({ type: "canceled", jobId: q.jobId }));
+    this.workers.forEach((w) => {
+      this.send(w, { type: "terminate" });
+      w.worker.terminate();
+    });
+    this.workers = [];
+    this.progress.clear();
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(new URL("./ffmpegWorker.ts", import.meta.url), { type: "module" }), jobId: null };
+    entry.worker.onmessage = (ev: MessageEvent<WorkerEvent>) => this.handle(entry, ev.data);
+    entry.worker.onerror = (ev: ErrorEvent) => {
+      ev.preventDefault();
+      this.crashed(entry, ev.message || "FFmpeg worker crashed");
+    };
+    entry.worker.onmessageerror = () => this.crashed(entry, "FFmpeg worker sent a message that could not be read");
+    this.workers.push(entry);
+    this.send(entry, { type: "load", payload: this.coreURLs });
+    return entry;
+  }
+
+  private send(w: PoolWorker, cmd: WorkerCommand, transfer: Transferable[] = []) {
+    w.worker.postMessage(cmd, transfer);
+  }
+
+  private handle(w: PoolWorker, msg: WorkerEvent) {
+    // The worker's own queue never holds more than the job we gave it; positions come from the pool
+    if (msg.type === "queued") return;
+    if (msg.type === "progress") {
+      this.progress.set(msg.jobId, msg.payload.ratio ?? 0);
+      this.onEvent(msg);
+      this.reportAggregate();
+      return;
+    }
+    if (msg.type === "result" || msg.type === "error" || msg.type === "canceled" || msg.type === "timedOut") {
+      if (msg.jobId && w.jobId === msg.jobId) {
+        w.jobId = null;
+        this.finish(msg.jobId);
+      }
+      this.onEvent(msg);
+      this.dispatch();
+      return;
+    }
+    this.onEvent(msg);
+  }
+
+  // A worker that crashed (often out of memory on a large input) takes its job down with it:
+  // report the job as failed, drop the worker and carry on with the queue
+  private crashed(w: PoolWorker, message: string) {
+    const idx = this.workers.indexOf(w);
+    if (idx < 0) return;
+    this.workers.splice(idx, 1);
+    w.worker.terminate();
+    const jobId = w.jobId;
+    w.jobId = null;
+    if (jobId) {
+      this.finish(jobId);
+      this.onEvent({ type: "error", jobId, payload: { message } });
+    } else {
+      this.onEvent({ type: "error", payload: { message } });
+    }
+    // Spawns the replacement when jobs are waiting; otherwise the next enqueue does
+    this.dispatch();
+  }
+
+  private finish(jobId: JobId) {
+    this.progress.delete(jobId);
+    this.reportAggregate();
+  }
+
+  // Hand queued jobs to idle workers, creating workers up to the pool size
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const idle = this.workers.find((w) => w.jobId === null) ?? (this.workers.length < this.size ? this.spawn() : null);
+      if (!idle) break;
+      const next = this.takeNext();
+      idle.jobId = next.jobId;
+      this.send(idle, { type: "enqueue", jobId: next.jobId, priority: next.priority, timeoutMs: next.timeoutMs, job: next.job }, next.transfer);
+    }
+    this.reportPositions();
+  }
+
+  // Highest priority first; FIFO within the same priority.
+  private takeNext(): PoolJob {
+    let best = 0;
+    for (let i = 1; i < this.queue.length; i++) {
+      const a = this.queue[i];
+      const b = this.queue[best];
+      if (a.priority > b.priority || (a.priority === b.priority && a.seq < b.seq)) best = i;
+    }
+    return this.queue.splice(best, 1)[0];
+  }
+
+  private reportPositions() {
+    [...this.queue]
+      .sort((a, b) => b.priority - a.priority || a.seq - b.seq)
+      .forEach((q, position) => this.onEvent({ type: "queued", jobId: q.jobId, position }));
+  }
+
+  private reportAggregate() {
+    const values = [...this.progress.values()];
+    const ratio = values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 1;
+    this.onEvent({
+      type: "aggregate",
+      payload: { ratio, running: this.workers.filter((w) => w.jobId).length, queued: this.queue.length },
+    });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * AudioLevelMeter
+ * - Live microphone level bar for the recorder stream (Web Audio AnalyserNode).
+ * - Shows the store's audio warning (no audio track / silent microphone) underneath,
+ *   so users notice a muted or wrong mic before they record a whole take.
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRecorder } from "./context";
+import { monitorAudioLevel, SILENCE_THRESHOLD_DB } from "./audioLevel";
+
+const FLOOR_DB = -60;
+
+export default function AudioLevelMeter({ className }: { className?: string }) {
+  const { stream, audioWarning } = useRecorder();
+  const [db, setDb] = useState<number>(-Infinity);
+
+  useEffect(() => {
+    if (!stream) {
+      setDb(-Infinity);
+      return;
+    }
+    return monitorAudioLevel(stream, setDb, 50);
+  }, [stream]);
+
+  // Map FLOOR_DB..0 dBFS to 0..100%
+  const percent = Number.isFinite(db) ? Math.min(100, Math.max(0, ((db - FLOOR_DB) / -FLOOR_DB) * 100)) : 0;
+  const color = db > -6 ? "bg-red-500" : db > -20 ? "bg-yellow-500" : db > SILENCE_THRESHOLD_DB ? "bg-emerald-500" : "bg-gray-400";
+
+  return (
+    <div className={`w-full ${className || ""}`}>
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <span>Mic</span>
+        <div
+          role="meter"
+          aria-label="Microphone level"
+          aria-valuemin={FLOOR_DB}
+          aria-valuemax={0}
+          aria-valuenow={Number.isFinite(db) ? Math.round(db) : FLOOR_DB}
+          className="h-2 flex-1 bg-gray-200 dark:bg-zinc-800 rounded overflow-hidden"
+        >
+          <div className={`h-full ${color} transition-[width] duration-75`} style={{ width: `${percent}%` }} />
+        </div>
+        <span className="tabular-nums w-14 text-right">{Number.isFinite(db) ? `${db.toFixed(0)} dB` : "—"}</span>
+      </div>
+
+      {audioWarning && (
+        <div role="alert" className="mt-1 text-xs text-amber-700">
+          {audioWarning === "noAudioTrack" && "No microphone in this stream: the recording will have no sound."}
+          {audioWarning === "silent" && "Your microphone seems silent. Check that it is not muted and the right device is selected."}
+        </div>
+      )}
+    </div>
+  );
+}
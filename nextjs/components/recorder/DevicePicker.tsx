@@ -0,0 +1,72 @@
+/**
+ * DevicePicker
+ * - Lets the user choose which camera and microphone the recorder uses.
+ * - The list is refreshed automatically when devices are plugged in or removed.
+ * - Switching is applied immediately while the preview is live (not while recording);
+ *   otherwise the choice is remembered and used on the next Initialize.
+ */
+
+"use client";
+
+import React from "react";
+import { useRecorder } from "./context";
+import type { MediaDeviceOption } from "./types";
+
+export default function DevicePicker({ className }: { className?: string }) {
+  const { videoInputs, audioInputs, selectedDevices, selectDevices, status, countdownRemaining } = useRecorder();
+
+  const locked = status === "recording" || status === "paused" || countdownRemaining !== null;
+
+  return (
+    <div className={`flex flex-wrap items-end gap-3 ${className || ""}`}>
+      <DeviceSelect
+        label="Camera"
+        devices={videoInputs}
+        value={selectedDevices.videoDeviceId}
+        disabled={locked}
+        onChange={(id) => selectDevices({ videoDeviceId: id }).catch(() => void 0)}
+      />
+      <DeviceSelect
+        label="Microphone"
+        devices={audioInputs}
+        value={selectedDevices.audioDeviceId}
+        disabled={locked}
+        onChange={(id) => selectDevices({ audioDeviceId: id }).catch(() => void 0)}
+      />
+    </div>
+  );
+}
+
+function DeviceSelect({
+  label,
+  devices,
+  value,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  devices: MediaDeviceOption[];
+  value: string | null;
+  disabled?: boolean;
+  onChange: (deviceId: string | null) => void;
+}) {
+  // A persisted device that is currently unplugged falls back to "Default" in the UI
+  const known = value !== null && devices.some((d) => d.deviceId === value);
+  return (
+    <label className="flex flex-col text-xs">
+      <span className="mb-1 text-gray-600 dark:text-gray-300">{label}</span>
+      <select
+        value={known ? value! : ""}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value || null)}
+        aria-label={`${label} device`}
+        className="border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 rounded px-2 py-1 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400"
+      >
+        <option value="">Default</option>
+        {devices.map((d) => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
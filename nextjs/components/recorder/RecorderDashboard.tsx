@@ -1,7 +1,11 @@
 /**
  * RecorderDashboard
  * - Provides control buttons to manage the recording session:
- *   Initialize camera, Start, Stop, Download, Reset, and Cleanup.
+ *   Initialize camera, Share screen, Record audio only, Start, Pause, Resume, Stop, Download, Reset, and Cleanup.
+ * - Screen mode options: mix in the microphone and overlay the webcam in a corner.
+ * - Quality profile picker (before recording) and the settings the browser actually negotiated.
+ * - Shows the elapsed recording time (paused intervals are not counted), the time and
+ *   size left when limits are configured, the pre-roll countdown and auto-stop reasons.
  * - Reflects current recording status and disables actions when not applicable.
  * - Exposes a Download link when a Blob is available.
  *
@@ -14,8 +18,11 @@
 
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useRecorder } from "./context";
+import { getElapsedMs } from "./reducer";
+import { extensionForMime } from "./media";
+import { QUALITY_PROFILES, QualityProfileId } from "./qualityProfiles";
 
 export default function RecorderDashboard({ className }: { className?: string }) {
   const {
@@ -26,20 +33,54 @@ export default function RecorderDashboard({ className }: { className?: string })
     init,
     start,
     stop,
+    pause,
+    resume,
     reset,
     cleanup,
+    elapsedMs,
+    segmentStartedAt,
+    takes,
+    selectedTakeId,
+    limits,
+    recordedBytes,
+    countdownRemaining,
+    autoStopReason,
+    qualityProfileId,
+    setQualityProfile,
+    negotiated,
   } = useRecorder();
+  const selectedTake = takes.find((t) => t.id === selectedTakeId);
 
+  const [shareMic, setShareMic] = useState(true);
+  const [shareCamera, setShareCamera] = useState(false);
+
+  // Re-render periodically while recording so the elapsed time stays live
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (status !== "recording") return;
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(id);
+  }, [status]);
+  const elapsed = getElapsedMs({ elapsedMs, segmentStartedAt }, Math.max(now, segmentStartedAt ?? 0));
+
+  const takeMime = selectedTake?.mimeType ?? mimeType;
+  const takeName = selectedTake?.name;
   const filename = useMemo(() => {
-    // Propose a time-stamped file name; extension based on mimeType if known
-    const ext = mimeType?.includes("webm") ? "webm" : mimeType?.includes("mp4") ? "mp4" : "webm";
+    // Propose a file name from the take name (or a timestamp); extension based on mimeType if known
+    const ext = extensionForMime(takeMime);
+    const base = takeName?.trim().replace(/[^\w\- ]+/g, "").replace(/\s+/g, "-");
     const stamp = new Date().toISOString().replace(/[:.]/g, "-");
-    return `recording-${stamp}.${ext}`;
-  }, [mimeType]);
+    return `${base || `recording-${stamp}`}.${ext}`;
+  }, [takeMime, takeName]);
 
   const canInit = status === "idle" || status === "error";
-  const canStart = status === "ready" || status === "stopped"; // allow re-record without re-init
-  const canStop = status === "recording";
+  // Switching to screen capture is allowed whenever nothing is being recorded
+  const countingDown = countdownRemaining !== null;
+  const canShare = status !== "recording" && status !== "paused" && !countingDown;
+  const canStart = (status === "ready" || status === "stopped") && !countingDown; // allow re-record without re-init
+  const canStop = status === "recording" || status === "paused" || countingDown; // stop also cancels the countdown
+  const canPause = status === "recording";
+  const canResume = status === "paused";
   const canDownload = Boolean(objectUrl && blob);
   const canReset = status === "ready" || status === "stopped" || status === "error";
 
@@ -57,6 +98,51 @@ export default function RecorderDashboard({ className }: { className?: string })
         Initialize
       </button>
 
+      <button
+        onClick={() => init(undefined, { source: "screen", microphone: shareMic, cameraOverlay: shareCamera }).catch(() => void 0)}
+        disabled={!canShare}
+        title="Capture a screen, window or tab"
+        aria-label="Capture a screen, window or tab"
+        className="inline-flex items-center gap-2 bg-sky-600 hover:bg-sky-700 text-white text-sm py-2 px-3 rounded disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+      >
+        {/* Monitor icon */}
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4"><path d="M4 4a2 2 0 00-2 2v9a2 2 0 002 2h6v2H8a1 1 0 100 2h8a1 1 0 100-2h-2v-2h6a2 2 0 002-2V6a2 2 0 00-2-2H4z"/></svg>
+        Share screen
+      </button>
+      <button
+        onClick={() => init(undefined, { source: "audio" }).catch(() => void 0)}
+        disabled={!canShare}
+        title="Record microphone only (voice memo, podcast)"
+        aria-label="Record microphone only"
+        className="inline-flex items-center gap-2 bg-fuchsia-600 hover:bg-fuchsia-700 text-white text-sm py-2 px-3 rounded disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-fuchsia-400"
+      >
+        {/* Microphone icon */}
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4"><path d="M12 2a3 3 0 00-3 3v6a3 3 0 006 0V5a3 3 0 00-3-3z"/><path d="M6 11a1 1 0 10-2 0 8 8 0 007 7.938V21a1 1 0 102 0v-2.062A8 8 0 0020 11a1 1 0 10-2 0 6 6 0 01-12 0z"/></svg>
+        Audio only
+      </button>
+      <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+        Quality
+        <select
+          value={qualityProfileId}
+          disabled={!canShare}
+          onChange={(e) => setQualityProfile(e.target.value as QualityProfileId).catch(() => void 0)}
+          aria-label="Recording quality profile"
+          className="border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 rounded px-1 py-1 disabled:opacity-50"
+        >
+          {QUALITY_PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+        <input type="checkbox" checked={shareMic} disabled={!canShare} onChange={(e) => setShareMic(e.target.checked)} />
+        Mic
+      </label>
+      <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+        <input type="checkbox" checked={shareCamera} disabled={!canShare} onChange={(e) => setShareCamera(e.target.checked)} />
+        Camera overlay
+      </label>
+
       <button
         onClick={start}
         disabled={!canStart}
@@ -69,6 +155,30 @@ export default function RecorderDashboard({ className }: { className?: string })
         Start
       </button>
 
+      <button
+        onClick={pause}
+        disabled={!canPause}
+        title="Pause recording"
+        aria-label="Pause recording"
+        className="inline-flex items-center gap-2 bg-yellow-600 hover:bg-yellow-700 text-white text-sm py-2 px-3 rounded disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+      >
+        {/* Pause icon */}
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4"><rect x="6" y="5" width="4" height="14" rx="1"/><rect x="14" y="5" width="4" height="14" rx="1"/></svg>
+        Pause
+      </button>
+
+      <button
+        onClick={resume}
+        disabled={!canResume}
+        title="Resume recording"
+        aria-label="Resume recording"
+        className="inline-flex items-center gap-2 bg-teal-600 hover:bg-teal-700 text-white text-sm py-2 px-3 rounded disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-teal-400"
+      >
+        {/* Play icon */}
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4"><path d="M7 4.5v15a1 1 0 001.52.85l12-7.5a1 1 0 000-1.7l-12-7.5A1 1 0 007 4.5z"/></svg>
+        Resume
+      </button>
+
       <button
         onClick={stop}
         disabled={!canStop}
@@ -108,8 +218,8 @@ export default function RecorderDashboard({ className }: { className?: string })
         <a
           href={objectUrl!}
           download={filename}
-          title="Download the recorded video file"
-          aria-label="Download the recorded video file"
+          title="Download the recorded file"
+          aria-label="Download the recorded file"
           className="inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm py-2 px-3 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
         >
           {/* Download icon */}
@@ -117,6 +227,48 @@ export default function RecorderDashboard({ className }: { className?: string })
           Download
         </a>
       )}
+
+      {/* Elapsed time (paused intervals excluded) and what is left of the limits */}
+      <span className="text-sm tabular-nums text-gray-600" aria-live="off" title="Elapsed recording time">
+        {countingDown ? `Starting in ${countdownRemaining}…` : (
+          <>
+            {status === "paused" ? "Paused " : ""}
+            {formatElapsed(elapsed)}
+            {limits.maxDurationSec ? ` / ${formatElapsed(limits.maxDurationSec * 1000)} (${formatElapsed(Math.max(0, limits.maxDurationSec * 1000 - elapsed))} left)` : ""}
+            {limits.maxBytes && (status === "recording" || status === "paused")
+              ? ` · ${formatMb(recordedBytes)} / ${formatMb(limits.maxBytes)}`
+              : ""}
+          </>
+        )}
+      </span>
+
+      {negotiated && (
+        <span className="text-xs tabular-nums text-gray-500" title="Settings negotiated by the browser">
+          {negotiated.width && negotiated.height ? `${negotiated.width}×${negotiated.height}` : "audio"}
+          {negotiated.frameRate ? ` @ ${Math.round(negotiated.frameRate)}fps` : ""}
+          {negotiated.videoBitsPerSecond ? ` · ${(negotiated.videoBitsPerSecond / 1_000_000).toFixed(1)} Mbps` : ""}
+          {negotiated.audioBitsPerSecond ? ` · ${Math.round(negotiated.audioBitsPerSecond / 1000)} kbps audio` : ""}
+        </span>
+      )}
+
+      {autoStopReason && status === "stopped" && (
+        <span role="status" className="text-xs text-amber-700">
+          {autoStopReason === "maxDuration" && "Stopped automatically: maximum duration reached."}
+          {autoStopReason === "maxBytes" && "Stopped automatically: maximum file size reached."}
+          {autoStopReason === "screenShareEnded" && "Stopped because screen sharing ended."}
+        </span>
+      )}
     </div>
   );
 }
+
+function formatElapsed(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const sec = total % 60;
+  return `${String(m).padStart(2, "0")}:${String(sec).padStart(2, "0")}`;
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,59 @@
+/**
+ * RecoveryPrompt
+ * - Lists recordings that were interrupted by a crash, reload or closed tab.
+ * - Recover turns the persisted chunks into a Blob and publishes it like a normal stop,
+ *   so download and processing work as usual. Discard deletes the stored data.
+ * - Says so when takes can't be saved for recovery (or listed) in IndexedDB.
+ * - Renders nothing when there is nothing to recover or report.
+ */
+
+"use client";
+
+import React from "react";
+import { useRecorder } from "./context";
+
+export default function RecoveryPrompt({ className }: { className?: string }) {
+  const { recoverableSessions, recoverSession, discardSession, status, sessionWarning } = useRecorder();
+
+  if (recoverableSessions.length === 0 && !sessionWarning) return null;
+  const locked = status === "recording" || status === "paused";
+
+  return (
+    <div role="status" className={`rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/40 p-3 text-sm ${className || ""}`}>
+      {sessionWarning && (
+        <div role="alert" className="text-xs text-amber-700">
+          {sessionWarning === "persistFailed" && "This take can't be saved for recovery (browser storage is full or unavailable). Download it before closing the page."}
+          {sessionWarning === "listFailed" && "Couldn't check browser storage for unfinished recordings."}
+        </div>
+      )}
+      {recoverableSessions.length > 0 && <div className="font-medium">Unfinished recordings found</div>}
+      <ul className="mt-2 space-y-2">
+        {recoverableSessions.map((s) => (
+          <li key={s.id} className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-700 dark:text-gray-300">
+              {new Date(s.createdAt).toLocaleString()} · {formatBytes(s.size)} · {s.chunkCount} chunks
+            </span>
+            <button
+              onClick={() => recoverSession(s.id)}
+              disabled={locked}
+              className="bg-green-600 hover:bg-green-700 text-white text-xs py-1 px-2 rounded disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-400"
+            >
+              Recover
+            </button>
+            <button
+              onClick={() => discardSession(s.id).catch(() => void 0)}
+              className="bg-gray-600 hover:bg-gray-700 text-white text-xs py-1 px-2 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400"
+            >
+              Discard
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,85 @@
+/**
+ * TakesLibrary
+ * - Lists every take recorded in this session with its thumbnail, duration and size.
+ * - Select a take to make it the current one (download link, processing panel).
+ * - Rename inline or delete a take; deleting releases its object URLs.
+ */
+
+"use client";
+
+import React from "react";
+import { useRecorder } from "./context";
+import type { Take } from "./types";
+
+export default function TakesLibrary({ className }: { className?: string }) {
+  const { takes, selectedTakeId, selectTake, renameTake, deleteTake } = useRecorder();
+
+  if (takes.length === 0) return null;
+
+  return (
+    <div className={`w-full ${className || ""}`}>
+      <div className="text-sm font-medium mb-2">Takes ({takes.length})</div>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {takes.map((t) => (
+          <TakeItem
+            key={t.id}
+            take={t}
+            selected={t.id === selectedTakeId}
+            onSelect={() => selectTake(t.id)}
+            onRename={(name) => renameTake(t.id, name)}
+            onDelete={() => deleteTake(t.id)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function TakeItem({
+  take,
+  selected,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  take: Take;
+  selected: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  return (
+    <li
+      className={`flex items-center gap-2 rounded border p-2 ${selected ? "border-blue-500 bg-blue-50 dark:bg-blue-950/40" : "border-gray-200 dark:border-gray-800"}`}
+    >
+      <button onClick={onSelect} aria-label={`Select ${take.name}`} aria-pressed={selected} className="shrink-0">
+        {take.thumbnailUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={take.thumbnailUrl} alt="" className="w-20 h-12 object-cover rounded bg-black" />
+        ) : (
+          <div className="w-20 h-12 rounded bg-gray-300 dark:bg-zinc-700" />
+        )}
+      </button>
+      <div className="flex-1 min-w-0">
+        <input
+          value={take.name}
+          onChange={(e) => onRename(e.target.value)}
+          aria-label="Take name"
+          className="w-full text-xs bg-transparent border-b border-transparent focus:border-gray-400 focus:outline-none"
+        />
+        <div className="text-[11px] text-gray-500">
+          {take.durationMs !== null ? `${(take.durationMs / 1000).toFixed(1)}s · ` : ""}
+          {(take.size / (1024 * 1024)).toFixed(1)} MB · {new Date(take.createdAt).toLocaleTimeString()}
+        </div>
+      </div>
+      <button
+        onClick={onDelete}
+        title="Delete take"
+        aria-label={`Delete ${take.name}`}
+        className="text-xs text-red-600 hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-400 rounded px-1"
+      >
+        Delete
+      </button>
+    </li>
+  );
+}
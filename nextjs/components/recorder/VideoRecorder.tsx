@@ -4,6 +4,8 @@
  * - Initializes the camera when mounted (if not initialized yet).
  * - Keeps the preview synced with the current MediaStream from the store.
  * - Does NOT handle starting/stopping; that is done by the dashboard controls.
+ * - Shows the pre-roll countdown (3-2-1) on top of the preview.
+ * - In audio-only mode the video preview is replaced by a compact placeholder.
  *
  * Accessibility and UX notes:
  * - The video is muted and plays inline to allow autoplay on mobile devices.
@@ -28,7 +30,8 @@ export default function VideoRecorder({
   constraints?: MediaStreamConstraints;
 }) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const { stream, status, errorMessage, init } = useRecorder();
+  const { stream, status, errorMessage, init, countdownRemaining, captureSource } = useRecorder();
+  const audioOnly = captureSource === "audio";
 
   // Initialize camera on first mount if not ready yet.
   useEffect(() => {
@@ -57,15 +60,43 @@ export default function VideoRecorder({
 
   return (
     <div className={className}>
-      <video
-        ref={videoRef}
-        width={width}
-        height={height}
-        muted
-        playsInline
-        autoPlay
-        style={{ backgroundColor: "#000", borderRadius: 8, width: "100%", height: "auto" }}
-      />
+      <div style={{ position: "relative" }}>
+        <video
+          ref={videoRef}
+          width={width}
+          height={height}
+          muted
+          playsInline
+          autoPlay
+          hidden={audioOnly}
+          style={{ backgroundColor: "#000", borderRadius: 8, width: "100%", height: "auto" }}
+        />
+        {audioOnly && (
+          <div
+            style={{ backgroundColor: "#111", color: "#ddd", borderRadius: 8, padding: "24px 16px", textAlign: "center", fontSize: 14 }}
+          >
+            Audio-only recording
+          </div>
+        )}
+        {countdownRemaining !== null && (
+          <div
+            aria-live="assertive"
+            style={{
+              position: "absolute",
+              inset: 0,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              fontSize: 96,
+              fontWeight: 700,
+              color: "#fff",
+              textShadow: "0 2px 8px rgba(0,0,0,0.6)",
+            }}
+          >
+            {countdownRemaining}
+          </div>
+        )}
+      </div>
 
       {/* Status region for screen readers */}
       <div aria-live="polite" style={{ marginTop: 8, fontSize: 12, color: "#555" }}>
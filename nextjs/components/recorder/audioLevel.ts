@@ -0,0 +1,43 @@
+// Web Audio helpers to measure the microphone level of a MediaStream.
+// Levels are reported in dBFS (0 = full scale, -Infinity = digital silence).
+
+export const SILENCE_THRESHOLD_DB = -50;
+
+// Sample the stream's audio with an AnalyserNode every `intervalMs` and report the RMS level.
+// Returns a stop function; returns a no-op when the stream has no audio or Web Audio is missing.
+export function monitorAudioLevel(
+  stream: MediaStream,
+  onLevel: (db: number) => void,
+  intervalMs = 100
+): () => void {
+  if (stream.getAudioTracks().length === 0) return () => void 0;
+  const Ctx =
+    typeof window !== "undefined"
+      ? window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+      : undefined;
+  if (!Ctx) return () => void 0;
+
+  const ctx = new Ctx();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser); // not connected to destination: we measure, we don't play back
+  const buffer = new Float32Array(analyser.fftSize);
+
+  // Autoplay policies may start the context suspended until a user gesture
+  ctx.resume().catch(() => void 0);
+
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    let sum = 0;
+    for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+    const rms = Math.sqrt(sum / buffer.length);
+    onLevel(rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+  }, intervalMs);
+
+  return () => {
+    window.clearInterval(timer);
+    source.disconnect();
+    ctx.close().catch(() => void 0);
+  };
+}
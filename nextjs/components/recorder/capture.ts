@@ -0,0 +1,89 @@
+// Acquire the MediaStream fed into MediaRecorder for the selected capture source.
+// Returns the stream plus a release() that stops every underlying device/track,
+// since a composited stream does not own the camera/screen tracks it is drawn from.
+
+import type { CaptureOptions, DeviceSelection } from "./types";
+import { requestDisplayMedia, requestUserMedia } from "./media";
+import { withDeviceSelection } from "./devices";
+import { compositeCameraOverlay, mixAudioStreams } from "./compositor";
+
+export interface CaptureHandle {
+  stream: MediaStream;
+  // Screen video track; it ends when the user clicks the browser's "Stop sharing"
+  displayTrack: MediaStreamTrack | null;
+  release: () => void;
+}
+
+function stopAll(stream: MediaStream | null | undefined) {
+  stream?.getTracks().forEach((t) => {
+    try {
+      t.stop();
+    } catch {
+      // ignore
+    }
+  });
+}
+
+export async function acquireCapture(
+  constraints: MediaStreamConstraints,
+  options: CaptureOptions,
+  selection: DeviceSelection
+): Promise<CaptureHandle> {
+  if (options.source === "audio") {
+    const stream = await requestUserMedia(withDeviceSelection({ audio: constraints.audio ?? true, video: false }, selection));
+    return { stream, displayTrack: null, release: () => stopAll(stream) };
+  }
+
+  if ((options.source ?? "camera") === "camera") {
+    const stream = await requestUserMedia(withDeviceSelection(constraints, selection));
+    return { stream, displayTrack: null, release: () => stopAll(stream) };
+  }
+
+  // Screen/window/tab; tab audio is offered by the browser picker where supported.
+  const display = await requestDisplayMedia({ video: true, audio: true });
+  let mic: MediaStream | null = null;
+  let camera: MediaStream | null = null;
+  try {
+    if (options.microphone ?? true) {
+      mic = await requestUserMedia(withDeviceSelection({ audio: constraints.audio ?? true, video: false }, selection));
+    }
+    if (options.cameraOverlay) {
+      camera = await requestUserMedia(withDeviceSelection({ video: constraints.video ?? true, audio: false }, selection));
+    }
+  } catch (err) {
+    stopAll(display);
+    stopAll(mic);
+    throw err;
+  }
+
+  let overlay: ReturnType<typeof compositeCameraOverlay> | null = null;
+  let audio: ReturnType<typeof mixAudioStreams>;
+  try {
+    overlay = camera
+      ? compositeCameraOverlay(display, camera, typeof options.cameraOverlay === "object" ? options.cameraOverlay : {})
+      : null;
+    audio = mixAudioStreams([display, ...(mic ? [mic] : [])]);
+  } catch (err) {
+    // e.g. no 2D canvas or AudioContext; nothing would own the devices otherwise
+    overlay?.stop();
+    stopAll(display);
+    stopAll(mic);
+    stopAll(camera);
+    throw err;
+  }
+  const displayTrack = display.getVideoTracks()[0] ?? null;
+  const videoTrack = overlay ? overlay.track : displayTrack;
+  const stream = new MediaStream([...(videoTrack ? [videoTrack] : []), ...audio.tracks]);
+
+  return {
+    stream,
+    displayTrack,
+    release: () => {
+      overlay?.stop();
+      audio.stop();
+      stopAll(display);
+      stopAll(mic);
+      stopAll(camera);
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// Canvas/Web Audio helpers used by screen capture:
+// - draw the webcam as a corner overlay on top of the screen video,
+// - mix several audio sources (tab audio + microphone) into one track.
+
+import type { CameraOverlayOptions } from "./types";
+
+interface Composited {
+  track: MediaStreamTrack;
+  stop: () => void;
+}
+
+// Offscreen <video> that just decodes a stream so it can be drawn onto a canvas.
+function hiddenVideo(stream: MediaStream): HTMLVideoElement {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(() => {
+    // no user-visible element; frames are drawn only once playback starts
+  });
+  return video;
+}
+
+export function compositeCameraOverlay(
+  screen: MediaStream,
+  camera: MediaStream,
+  opts: CameraOverlayOptions = {}
+): Composited {
+  const corner = opts.corner ?? "bottom-right";
+  const widthRatio = opts.widthRatio ?? 0.22;
+  const marginRatio = opts.marginRatio ?? 0.02;
+  const fps = opts.fps ?? 30;
+
+  const base = hiddenVideo(screen);
+  const overlay = hiddenVideo(camera);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available for camera overlay");
+
+  const draw = () => {
+    const w = base.videoWidth;
+    const h = base.videoHeight;
+    if (!w || !h) return;
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    ctx.drawImage(base, 0, 0, w, h);
+
+    const ow = overlay.videoWidth;
+    const oh = overlay.videoHeight;
+    if (!ow || !oh) return;
+    const tw = Math.round(w * widthRatio);
+    const th = Math.round((tw * oh) / ow);
+    const m = Math.round(w * marginRatio);
+    const x = corner.endsWith("left") ? m : w - tw - m;
+    const y = corner.startsWith("top") ? m : h - th - m;
+    ctx.drawImage(overlay, x, y, tw, th);
+  };
+
+  // A timer instead of requestAnimationFrame: rAF stops while the tab is hidden,
+  // which is exactly the case when the user is sharing another window.
+  const timer = window.setInterval(draw, Math.round(1000 / fps));
+  const out = canvas.captureStream(fps);
+
+  return {
+    track: out.getVideoTracks()[0],
+    stop: () => {
+      window.clearInterval(timer);
+      out.getTracks().forEach((t) => t.stop());
+      base.srcObject = null;
+      overlay.srcObject = null;
+    },
+  };
+}
+
+// Mix audio tracks of several streams. With a single source the original tracks are returned as is.
+export function mixAudioStreams(streams: MediaStream[]): { tracks: MediaStreamTrack[]; stop: () => void } {
+  const sources = streams.filter((s) => s.getAudioTracks().length > 0);
+  if (sources.length <= 1) {
+    return { tracks: sources[0]?.getAudioTracks() ?? [], stop: () => void 0 };
+  }
+  const ctx = new AudioContext();
+  const destination = ctx.createMediaStreamDestination();
+  sources.forEach((s) => ctx.createMediaStreamSource(s).connect(destination));
+  return {
+    tracks: destination.stream.getAudioTracks(),
+    stop: () => {
+      destination.stream.getTracks().forEach((t) => t.stop());
+      ctx.close().catch(() => void 0);
+    },
+  };
+}
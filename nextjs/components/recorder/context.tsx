@@ -1,27 +1,149 @@
 "use client";
 
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from "react";
-import { RecorderApi } from "./types";
-import { initialState, reducer } from "./reducer";
-import { pickSupportedMimeType, requestUserMedia } from "./media";
+import { AutoStopReason, CaptureOptions, DeviceSelection, NegotiatedSettings, RecorderApi, RecorderState, RecordingLimits, Take } from "./types";
+import { getElapsedMs, initialState, reducer } from "./reducer";
+import { AUDIO_MIME_CANDIDATES, pickSupportedMimeType, VIDEO_MIME_CANDIDATES } from "./media";
+import { listInputDevices, loadDeviceSelection, onDeviceChange, saveDeviceSelection } from "./devices";
+import { acquireCapture } from "./capture";
+import {
+  appendChunk,
+  createSession,
+  deleteSession,
+  isSessionStoreAvailable,
+  listUnfinishedSessions,
+  loadSessionBlob,
+} from "./sessionStore";
+import { createId } from "./ids";
+import { captureThumbnail } from "./thumbnail";
+import { fixWebmDuration } from "./webmDuration";
+import { monitorAudioLevel, SILENCE_THRESHOLD_DB } from "./audioLevel";
+import {
+  DEFAULT_QUALITY_PROFILE_ID,
+  getQualityProfile,
+  QualityProfileId,
+  recorderBitrates,
+  withQualityProfile,
+} from "./qualityProfiles";
 
 const RecorderContext = createContext<RecorderApi | null>(null);
 
-export function RecorderProvider({ children }: { children: React.ReactNode }) {
-  const [state, dispatch] = useReducer(reducer, initialState);
-  const urlRef = useRef<string | null>(null);
+export function RecorderProvider({
+  children,
+  timesliceMs = 1000,
+  persistSessions = true,
+  maxDurationSec,
+  maxBytes,
+  countdownSec = 0,
+  silenceWarningSec = 5,
+  qualityProfile = DEFAULT_QUALITY_PROFILE_ID,
+  repairWebm = true,
+}: {
+  children: React.ReactNode;
+  /** How often MediaRecorder emits a chunk while recording (ms) */
+  timesliceMs?: number;
+  /** Append chunks to IndexedDB as they arrive so a crash/reload can be recovered */
+  persistSessions?: boolean;
+  /** Warn when the microphone stays below the silence threshold this long (seconds); 0 disables */
+  silenceWarningSec?: number;
+  /** Initial quality preset (resolution, frame rate, bitrates) */
+  qualityProfile?: QualityProfileId;
+  /** Add the missing Duration to MediaRecorder WebM output before publishing the take */
+  repairWebm?: boolean;
+} & RecordingLimits) {
+  const [state, dispatch] = useReducer(reducer, { ...initialState, qualityProfileId: qualityProfile });
+  // Latest state for event handlers that outlive a render (recorder.onstop, unmount)
+  const stateRef = useRef<RecorderState>(state);
+  stateRef.current = state;
+  const takeCounterRef = useRef(0);
+  const limits = useMemo<RecordingLimits>(() => ({ maxDurationSec, maxBytes, countdownSec }), [maxDurationSec, maxBytes, countdownSec]);
+  const limitsRef = useRef(limits);
+  limitsRef.current = limits;
+  const bytesRef = useRef(0);
+  const repairWebmRef = useRef(repairWebm);
+  repairWebmRef.current = repairWebm;
+  const countdownTimerRef = useRef<number | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const constraintsRef = useRef<MediaStreamConstraints>({ video: true, audio: true });
+  const selectionRef = useRef<DeviceSelection>(initialState.selectedDevices);
+  const captureOptionsRef = useRef<CaptureOptions>({ source: "camera" });
+  const profileIdRef = useRef<QualityProfileId>(qualityProfile);
+  // Stops the devices behind the current stream (screen, camera overlay, mixers)
+  const releaseRef = useRef<(() => void) | null>(null);
+  // IndexedDB session of the take being recorded; writes are serialized through persistQueueRef
+  const sessionRef = useRef<{ id: string; seq: number } | null>(null);
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const persistEnabled = persistSessions && isSessionStoreAvailable();
+  const persistEnabledRef = useRef(persistEnabled);
+  persistEnabledRef.current = persistEnabled;
 
+  // Queue an IndexedDB write; failures set sessionWarning but never interrupt recording.
+  const persist = useCallback((op: () => Promise<void>) => {
+    persistQueueRef.current = persistQueueRef.current.then(op).catch(() => {
+      dispatch({ type: "SET_SESSION_WARNING", warning: "persistFailed" });
+    });
+    return persistQueueRef.current;
+  }, []);
+
+  const refreshRecoverable = useCallback(async () => {
+    if (!persistEnabledRef.current) return;
+    try {
+      dispatch({ type: "SET_RECOVERABLE", sessions: await listUnfinishedSessions() });
+    } catch {
+      dispatch({ type: "SET_SESSION_WARNING", warning: "listFailed" });
+    }
+  }, []);
+
+  // Offer recovery of sessions left behind by a previous crash or reload.
   useEffect(() => {
-    return () => {
-      if (urlRef.current) {
-        URL.revokeObjectURL(urlRef.current);
-        urlRef.current = null;
+    refreshRecoverable();
+  }, [refreshRecoverable]);
+
+  // Publish a finished recording as a new take and select it. Object URLs are owned here.
+  const publishTake = useCallback((blob: Blob, durationMs: number | null, name?: string) => {
+    const id = createId();
+    takeCounterRef.current += 1;
+    const take: Take = {
+      id,
+      name: name ?? `Take ${takeCounterRef.current}`,
+      createdAt: Date.now(),
+      durationMs,
+      mimeType: blob.type || "video/webm",
+      size: blob.size,
+      blob,
+      objectUrl: URL.createObjectURL(blob),
+      thumbnailUrl: null,
+    };
+    dispatch({ type: "ADD_TAKE", take });
+
+    captureThumbnail(blob).then((thumb) => {
+      if (!thumb) return;
+      const url = URL.createObjectURL(thumb);
+      // The take may have been deleted while the thumbnail was rendering
+      if (stateRef.current.takes.some((t) => t.id === id)) {
+        dispatch({ type: "SET_TAKE_THUMBNAIL", id, url });
+      } else {
+        URL.revokeObjectURL(url);
       }
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stateRef.current.takes.forEach(revokeTakeUrls);
+      releaseRef.current?.();
+      releaseRef.current = null;
     };
   }, []);
 
   const cleanup = useCallback(() => {
+    if (countdownTimerRef.current !== null) {
+      window.clearInterval(countdownTimerRef.current);
+      countdownTimerRef.current = null;
+      dispatch({ type: "SET_COUNTDOWN", remaining: null });
+    }
+    releaseRef.current?.();
+    releaseRef.current = null;
     if (state.stream) {
       state.stream.getTracks().forEach((t) => {
         try {
@@ -38,121 +160,428 @@ export function RecorderProvider({ children }: { children: React.ReactNode }) {
       // ignore
     }
 
-    if (urlRef.current) {
-      URL.revokeObjectURL(urlRef.current);
-      urlRef.current = null;
-    }
+    state.takes.forEach(revokeTakeUrls);
 
     dispatch({ type: "SET_STREAM", stream: null });
     dispatch({ type: "SET_RECORDER", recorder: null, mimeType: state.mimeType });
-    dispatch({ type: "SET_BLOB", blob: null });
-    dispatch({ type: "SET_OBJECT_URL", url: null });
+    dispatch({ type: "CLEAR_TAKES" });
     dispatch({ type: "CLEAR_CHUNKS" });
     chunksRef.current = [];
+    dispatch({ type: "TIMER_PAUSE", at: Date.now() });
     dispatch({ type: "SET_STATUS", status: "idle" });
-  }, [state.stream, state.recorder, state.mimeType]);
+  }, [state.stream, state.recorder, state.mimeType, state.takes]);
+
+  // Stop on behalf of a limit or the browser (not the user); the reason is shown in the dashboard.
+  const autoStop = useCallback((recorder: MediaRecorder, reason: AutoStopReason) => {
+    if (recorder.state === "inactive") return;
+    try {
+      recorder.stop();
+    } catch {
+      // ignore
+    }
+    dispatch({ type: "TIMER_PAUSE", at: Date.now() });
+    dispatch({ type: "AUTO_STOP", reason });
+  }, []);
+
+  // Build a MediaRecorder for the given stream and wire its events into the store.
+  const attachRecorder = useCallback((stream: MediaStream) => {
+    const audioOnly = stream.getVideoTracks().length === 0;
+    const picked = pickSupportedMimeType(audioOnly ? AUDIO_MIME_CANDIDATES : VIDEO_MIME_CANDIDATES);
+    const bitrates = recorderBitrates(getQualityProfile(profileIdRef.current), audioOnly);
+
+    const recorder = new MediaRecorder(stream, picked ? { mimeType: picked, ...bitrates } : bitrates);
+
+    dispatch({ type: "SET_STREAM", stream });
+    dispatch({ type: "SET_RECORDER", recorder, mimeType: picked });
+    dispatch({ type: "SET_NEGOTIATED", settings: readNegotiatedSettings(stream, recorder) });
+
+    recorder.ondataavailable = (e: Event & { data?: Blob }) => {
+      const maybe = (e as unknown as { data?: Blob }).data;
+      const data = maybe && maybe.size > 0 ? maybe : undefined;
+      if (data && data.size > 0) {
+        chunksRef.current.push(data);
+        dispatch({ type: "PUSH_CHUNK", chunk: data });
+        bytesRef.current += data.size;
+        const session = sessionRef.current;
+        if (session) {
+          const seq = session.seq++;
+          persist(() => appendChunk(session.id, seq, data));
+        }
+        // Size is only known per timeslice: stop when the next chunk of similar size would overflow
+        const max = limitsRef.current.maxBytes;
+        if (max && bytesRef.current + data.size > max) {
+          autoStop(recorder, "maxBytes");
+        }
+      }
+    };
+    recorder.onerror = (e: unknown) => {
+      const message = (e as { error?: { message?: string } })?.error?.message ?? "Recorder error";
+      dispatch({ type: "SET_ERROR", message });
+    };
+    recorder.onstop = () => {
+      const type = picked || recorder.mimeType || (audioOnly ? "audio/webm" : "video/webm");
+      const blob = new Blob(chunksRef.current, { type });
+      dispatch({ type: "CLEAR_CHUNKS" });
+      chunksRef.current = [];
+
+      const durationMs = getElapsedMs(stateRef.current);
+      const session = sessionRef.current;
+      sessionRef.current = null;
 
-  const init = useCallback(async (constraints?: MediaStreamConstraints) => {
+      const publish = (final: Blob) => {
+        publishTake(final, durationMs);
+        dispatch({ type: "SET_STATUS", status: "stopped" });
+        // The take is published; its crash-recovery copy is no longer needed
+        if (session) persist(() => deleteSession(session.id));
+      };
+      // Write the elapsed time and a Cues index into the WebM so the file is seekable (never rejects)
+      if (repairWebmRef.current) {
+        fixWebmDuration(blob, durationMs).then(publish);
+      } else {
+        publish(blob);
+      }
+    };
+    return recorder;
+  }, [persist, publishTake, autoStop]);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const { videoInputs, audioInputs } = await listInputDevices();
+      dispatch({ type: "SET_DEVICES", videoInputs, audioInputs });
+    } catch {
+      // enumerateDevices can fail in restricted contexts; keep the previous list
+    }
+  }, []);
+
+  // Watch the live stream for a missing or silent microphone.
+  useEffect(() => {
+    const stream = state.stream;
+    if (!stream) {
+      dispatch({ type: "SET_AUDIO_WARNING", warning: null });
+      return;
+    }
+    if (stream.getAudioTracks().length === 0) {
+      dispatch({ type: "SET_AUDIO_WARNING", warning: "noAudioTrack" });
+      return;
+    }
+    dispatch({ type: "SET_AUDIO_WARNING", warning: null });
+    if (silenceWarningSec <= 0) return;
+
+    let silentSince: number | null = null;
+    return monitorAudioLevel(
+      stream,
+      (db) => {
+        const now = Date.now();
+        if (db >= SILENCE_THRESHOLD_DB) {
+          silentSince = null;
+          dispatch({ type: "SET_AUDIO_WARNING", warning: null });
+          return;
+        }
+        silentSince ??= now;
+        if (now - silentSince >= silenceWarningSec * 1000) {
+          dispatch({ type: "SET_AUDIO_WARNING", warning: "silent" });
+        }
+      },
+      250
+    );
+  }, [state.stream, silenceWarningSec]);
+
+  // Restore persisted device choice and keep the device list fresh on hot-plug.
+  useEffect(() => {
+    const saved = loadDeviceSelection();
+    selectionRef.current = saved;
+    dispatch({ type: "SELECT_DEVICES", selection: saved });
+    refreshDevices();
+    return onDeviceChange(() => {
+      refreshDevices();
+    });
+  }, [refreshDevices]);
+
+  // Caller constraints with the current quality preset applied
+  const captureConstraints = () => withQualityProfile(constraintsRef.current, getQualityProfile(profileIdRef.current));
+
+  const init = useCallback(async (constraints?: MediaStreamConstraints, options?: CaptureOptions) => {
     if (typeof window === "undefined") return;
 
     try {
       const defaultConstraints: MediaStreamConstraints = { video: true, audio: true };
-      const stream = await requestUserMedia(constraints ?? defaultConstraints);
+      constraintsRef.current = constraints ?? defaultConstraints;
+      captureOptionsRef.current = options ?? { source: "camera" };
 
-      const mimeCandidates = [
-        "video/webm;codecs=vp9,opus",
-        "video/webm;codecs=vp8,opus",
-        "video/webm",
-        "video/mp4",
-      ];
-      const picked = pickSupportedMimeType(mimeCandidates);
+      // Re-initializing (e.g. camera -> screen) must not leave the previous devices running
+      releaseRef.current?.();
+      releaseRef.current = null;
 
-      const recorder = picked ? new MediaRecorder(stream, { mimeType: picked }) : new MediaRecorder(stream);
+      const capture = await acquireCapture(captureConstraints(), captureOptionsRef.current, selectionRef.current);
+      releaseRef.current = capture.release;
 
-      dispatch({ type: "SET_STREAM", stream });
-      dispatch({ type: "SET_RECORDER", recorder, mimeType: picked });
+      attachRecorder(capture.stream);
+      dispatch({ type: "SET_CAPTURE_SOURCE", source: captureOptionsRef.current.source ?? "camera" });
       dispatch({ type: "SET_STATUS", status: "ready" });
       dispatch({ type: "CLEAR_CHUNKS" });
-      dispatch({ type: "SET_BLOB", blob: null });
-      dispatch({ type: "SET_OBJECT_URL", url: null });
-
-      recorder.ondataavailable = (e: Event & { data?: Blob }) => {
-        const maybe = (e as unknown as { data?: Blob }).data;
-        const data = maybe && maybe.size > 0 ? maybe : undefined;
-        if (data && data.size > 0) {
-          chunksRef.current.push(data);
-          dispatch({ type: "PUSH_CHUNK", chunk: data });
-        }
-      };
-      recorder.onerror = (e: unknown) => {
-        const message = (e as { error?: { message?: string } })?.error?.message ?? "Recorder error";
-        dispatch({ type: "SET_ERROR", message });
-      };
-      recorder.onstop = () => {
-        const type = picked || "video/webm";
-        const blob = new Blob(chunksRef.current, { type });
-        dispatch({ type: "SET_BLOB", blob });
-        dispatch({ type: "CLEAR_CHUNKS" });
-        chunksRef.current = [];
-
-        if (urlRef.current) {
-          URL.revokeObjectURL(urlRef.current);
-        }
-        const url = URL.createObjectURL(blob);
-        urlRef.current = url;
-        dispatch({ type: "SET_OBJECT_URL", url });
-        dispatch({ type: "SET_STATUS", status: "stopped" });
-      };
+
+      // The browser's "Stop sharing" button ends the screen track; finish the take gracefully.
+      // The recorder is looked up when it fires (a quality change rebuilds it on the same stream),
+      // and only while this capture is still the current one.
+      capture.displayTrack?.addEventListener("ended", () => {
+        const recorder = stateRef.current.recorder;
+        if (recorder && releaseRef.current === capture.release) autoStop(recorder, "screenShareEnded");
+      });
+
+      // Labels become available only after permission is granted
+      refreshDevices();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: "SET_ERROR", message });
+    }
+  }, [attachRecorder, refreshDevices, autoStop]);
+
+  const selectDevices = useCallback(async (selection: Partial<DeviceSelection>) => {
+    const next: DeviceSelection = { ...selectionRef.current, ...selection };
+    selectionRef.current = next;
+    saveDeviceSelection(next);
+    dispatch({ type: "SELECT_DEVICES", selection: next });
+
+    // Hot switch only when a camera/microphone stream is live and nothing is being recorded.
+    // Screen capture would re-open the browser's share picker, so there the choice applies on next init.
+    if (!state.stream || (state.status !== "ready" && state.status !== "stopped")) return;
+    if (state.captureSource === "screen") return;
+
+    // Release the current devices first: some platforms cannot open the same camera twice.
+    releaseRef.current?.();
+    releaseRef.current = null;
+    dispatch({ type: "SET_STREAM", stream: null });
+    dispatch({ type: "SET_RECORDER", recorder: null, mimeType: state.mimeType });
+
+    try {
+      const capture = await acquireCapture(captureConstraints(), captureOptionsRef.current, next);
+      releaseRef.current = capture.release;
+      attachRecorder(capture.stream);
+      dispatch({ type: "CLEAR_CHUNKS" });
+      chunksRef.current = [];
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: "SET_ERROR", message });
+    }
+  }, [state.stream, state.status, state.mimeType, state.captureSource, attachRecorder]);
+
+  const setQualityProfile = useCallback(async (id: QualityProfileId) => {
+    profileIdRef.current = id;
+    dispatch({ type: "SET_QUALITY_PROFILE", id });
+
+    if (!state.stream || (state.status !== "ready" && state.status !== "stopped")) return;
+
+    // Screen capture can't be re-requested silently: keep the stream, rebuild the recorder for new bitrates
+    if (state.captureSource === "screen") {
+      attachRecorder(state.stream);
+      return;
+    }
+
+    releaseRef.current?.();
+    releaseRef.current = null;
+    dispatch({ type: "SET_STREAM", stream: null });
+    dispatch({ type: "SET_RECORDER", recorder: null, mimeType: state.mimeType });
+
+    try {
+      const capture = await acquireCapture(captureConstraints(), captureOptionsRef.current, selectionRef.current);
+      releaseRef.current = capture.release;
+      attachRecorder(capture.stream);
+      dispatch({ type: "CLEAR_CHUNKS" });
+      chunksRef.current = [];
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       dispatch({ type: "SET_ERROR", message });
     }
+  }, [state.stream, state.status, state.mimeType, state.captureSource, attachRecorder]);
+
+  const cancelCountdown = useCallback(() => {
+    if (countdownTimerRef.current !== null) {
+      window.clearInterval(countdownTimerRef.current);
+      countdownTimerRef.current = null;
+    }
+    dispatch({ type: "SET_COUNTDOWN", remaining: null });
   }, []);
 
-  const start = useCallback(() => {
-    if (!state.recorder || state.status === "recording") return;
+  useEffect(() => cancelCountdown, [cancelCountdown]);
+
+  // Reads the recorder through stateRef: after a countdown it runs from a timer set up seconds
+  // earlier, when the recorder may since have been replaced or the take already started
+  const beginRecording = useCallback(() => {
+    const { recorder, status, mimeType } = stateRef.current;
+    if (!recorder || status === "recording" || status === "paused") return;
     try {
       dispatch({ type: "CLEAR_CHUNKS" });
       chunksRef.current = [];
-      state.recorder.start();
+      bytesRef.current = 0;
+      if (persistEnabledRef.current) {
+        const id = createId();
+        const mime = recorder.mimeType || mimeType || "video/webm";
+        sessionRef.current = { id, seq: 0 };
+        dispatch({ type: "SET_SESSION_WARNING", warning: null });
+        persist(() => createSession(id, mime));
+      }
+      // Timeslice makes ondataavailable fire periodically instead of once at stop
+      recorder.start(timesliceMs > 0 ? timesliceMs : undefined);
+      dispatch({ type: "TIMER_START", at: Date.now() });
       dispatch({ type: "SET_STATUS", status: "recording" });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       dispatch({ type: "SET_ERROR", message });
     }
-  }, [state.recorder, state.status]);
+  }, [timesliceMs, persist]);
+
+  const start = useCallback(() => {
+    if (!state.recorder || state.status === "recording" || state.status === "paused") return;
+    if (countdownTimerRef.current !== null) return; // already counting down
+    const seconds = Math.floor(limits.countdownSec ?? 0);
+    if (seconds <= 0) {
+      beginRecording();
+      return;
+    }
+    let remaining = seconds;
+    dispatch({ type: "SET_COUNTDOWN", remaining });
+    countdownTimerRef.current = window.setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        dispatch({ type: "SET_COUNTDOWN", remaining });
+        return;
+      }
+      cancelCountdown();
+      beginRecording();
+    }, 1000);
+  }, [state.recorder, state.status, limits.countdownSec, beginRecording, cancelCountdown]);
+
+  // Enforce maxDurationSec; the timer is re-armed on resume with the remaining budget.
+  useEffect(() => {
+    const max = limits.maxDurationSec;
+    const recorder = state.recorder;
+    if (!max || !recorder || state.status !== "recording") return;
+    const left = max * 1000 - getElapsedMs({ elapsedMs: state.elapsedMs, segmentStartedAt: state.segmentStartedAt });
+    const id = window.setTimeout(() => autoStop(recorder, "maxDuration"), Math.max(0, left));
+    return () => window.clearTimeout(id);
+  }, [limits.maxDurationSec, state.recorder, state.status, state.elapsedMs, state.segmentStartedAt, autoStop]);
 
   const stop = useCallback(() => {
-    if (!state.recorder || state.status !== "recording") return;
+    if (countdownTimerRef.current !== null) {
+      cancelCountdown();
+      return;
+    }
+    if (!state.recorder || (state.status !== "recording" && state.status !== "paused")) return;
     try {
       state.recorder.stop();
+      dispatch({ type: "TIMER_PAUSE", at: Date.now() });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: "SET_ERROR", message });
+    }
+  }, [state.recorder, state.status, cancelCountdown]);
+
+  const pause = useCallback(() => {
+    if (!state.recorder || state.status !== "recording") return;
+    try {
+      state.recorder.pause();
+      dispatch({ type: "TIMER_PAUSE", at: Date.now() });
+      dispatch({ type: "SET_STATUS", status: "paused" });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       dispatch({ type: "SET_ERROR", message });
     }
   }, [state.recorder, state.status]);
 
-  const reset = useCallback(() => {
-    if (urlRef.current) {
-      URL.revokeObjectURL(urlRef.current);
-      urlRef.current = null;
+  const resume = useCallback(() => {
+    if (!state.recorder || state.status !== "paused") return;
+    try {
+      state.recorder.resume();
+      dispatch({ type: "TIMER_RESUME", at: Date.now() });
+      dispatch({ type: "SET_STATUS", status: "recording" });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: "SET_ERROR", message });
     }
-    dispatch({ type: "SET_OBJECT_URL", url: null });
+  }, [state.recorder, state.status]);
+
+  // Deselect the current take (takes stay in the library) and get ready for another one
+  const reset = useCallback(() => {
+    dispatch({ type: "SELECT_TAKE", id: null });
     dispatch({ type: "CLEAR_CHUNKS" });
     chunksRef.current = [];
     dispatch({ type: "SET_STATUS", status: state.stream ? "ready" : "idle" });
   }, [state.stream]);
 
+  const recoverSession = useCallback(async (id: string) => {
+    try {
+      await persistQueueRef.current;
+      const blob = await loadSessionBlob(id);
+      publishTake(blob, null, "Recovered take");
+      dispatch({ type: "SET_STATUS", status: "stopped" });
+      await persist(() => deleteSession(id));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: "SET_ERROR", message });
+    } finally {
+      await refreshRecoverable();
+    }
+  }, [persist, publishTake, refreshRecoverable]);
+
+  const discardSession = useCallback(async (id: string) => {
+    await persist(() => deleteSession(id));
+    await refreshRecoverable();
+  }, [persist, refreshRecoverable]);
+
+  const selectTake = useCallback((id: string | null) => {
+    dispatch({ type: "SELECT_TAKE", id });
+  }, []);
+
+  const renameTake = useCallback((id: string, name: string) => {
+    dispatch({ type: "RENAME_TAKE", id, name });
+  }, []);
+
+  const deleteTake = useCallback((id: string) => {
+    const take = state.takes.find((t) => t.id === id);
+    if (!take) return;
+    revokeTakeUrls(take);
+    dispatch({ type: "REMOVE_TAKE", id });
+  }, [state.takes]);
+
   const value: RecorderApi = useMemo(
     () => ({
       ...state,
+      limits,
       init,
       start,
       stop,
+      pause,
+      resume,
       reset,
       cleanup,
+      refreshDevices,
+      selectDevices,
+      setQualityProfile,
+      recoverSession,
+      discardSession,
+      selectTake,
+      renameTake,
+      deleteTake,
     }),
-    [state, init, start, stop, reset, cleanup]
+    [
+      state,
+      limits,
+      init,
+      start,
+      stop,
+      pause,
+      resume,
+      reset,
+      cleanup,
+      refreshDevices,
+      selectDevices,
+      setQualityProfile,
+      recoverSession,
+      discardSession,
+      selectTake,
+      renameTake,
+      deleteTake,
+    ]
   );
 
   return <RecorderContext.Provider value={value}>{children}</RecorderContext.Provider>;
@@ -165,3 +594,23 @@ export function useRecorder(): RecorderApi {
   }
   return ctx;
 }
+
+// Read back what the browser actually gave us; requested constraints are only hints.
+function readNegotiatedSettings(stream: MediaStream, recorder: MediaRecorder): NegotiatedSettings {
+  const video = stream.getVideoTracks()[0]?.getSettings();
+  const audio = stream.getAudioTracks()[0]?.getSettings();
+  return {
+    width: video?.width,
+    height: video?.height,
+    frameRate: video?.frameRate,
+    sampleRate: audio?.sampleRate,
+    channelCount: audio?.channelCount,
+    videoBitsPerSecond: recorder.videoBitsPerSecond || undefined,
+    audioBitsPerSecond: recorder.audioBitsPerSecond || undefined,
+  };
+}
+
+function revokeTakeUrls(take: Take) {
+  URL.revokeObjectURL(take.objectUrl);
+  if (take.thumbnailUrl) URL.revokeObjectURL(take.thumbnailUrl);
+}
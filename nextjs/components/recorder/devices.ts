@@ -0,0 +1,76 @@
+// Device helpers: enumerate cameras/microphones, persist the user's choice,
+// and merge the selected device IDs into getUserMedia constraints.
+
+import type { DeviceSelection, MediaDeviceOption } from "./types";
+
+const SELECTION_STORAGE_KEY = "recorder.devices.v1";
+
+// List video and audio inputs. Labels are empty until the user grants permission,
+// so we fall back to "Camera 1", "Microphone 2", etc.
+export async function listInputDevices(): Promise<{ videoInputs: MediaDeviceOption[]; audioInputs: MediaDeviceOption[] }> {
+  if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) {
+    return { videoInputs: [], audioInputs: [] };
+  }
+  const all = await navigator.mediaDevices.enumerateDevices();
+  const toOption = (d: MediaDeviceInfo, i: number, fallback: string): MediaDeviceOption => ({
+    deviceId: d.deviceId,
+    groupId: d.groupId,
+    kind: d.kind as MediaDeviceOption["kind"],
+    label: d.label || `${fallback} ${i + 1}`,
+  });
+  const videoInputs = all.filter((d) => d.kind === "videoinput" && d.deviceId).map((d, i) => toOption(d, i, "Camera"));
+  const audioInputs = all.filter((d) => d.kind === "audioinput" && d.deviceId).map((d, i) => toOption(d, i, "Microphone"));
+  return { videoInputs, audioInputs };
+}
+
+// Subscribe to hot-plug events; returns an unsubscribe function.
+export function onDeviceChange(listener: () => void): () => void {
+  const md = typeof navigator !== "undefined" ? navigator.mediaDevices : undefined;
+  if (!md || typeof md.addEventListener !== "function") return () => void 0;
+  md.addEventListener("devicechange", listener);
+  return () => md.removeEventListener("devicechange", listener);
+}
+
+export function loadDeviceSelection(): DeviceSelection {
+  const empty: DeviceSelection = { videoDeviceId: null, audioDeviceId: null };
+  if (typeof window === "undefined") return empty;
+  try {
+    const raw = window.localStorage.getItem(SELECTION_STORAGE_KEY);
+    if (!raw) return empty;
+    const parsed = JSON.parse(raw) as Partial<DeviceSelection>;
+    return {
+      videoDeviceId: typeof parsed.videoDeviceId === "string" ? parsed.videoDeviceId : null,
+      audioDeviceId: typeof parsed.audioDeviceId === "string" ? parsed.audioDeviceId : null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+export function saveDeviceSelection(selection: DeviceSelection): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch {
+    // storage may be full or disabled (private mode); selection just won't persist
+  }
+}
+
+// Apply selected device IDs to constraints. Tracks that are disabled (false/undefined) stay disabled.
+// The IDs are `ideal`, not `exact`: a saved device that was unplugged (or whose ID the browser
+// rotated) then falls back to the default device instead of failing with OverconstrainedError.
+export function withDeviceSelection(constraints: MediaStreamConstraints, selection: DeviceSelection): MediaStreamConstraints {
+  const apply = (
+    track: boolean | MediaTrackConstraints | undefined,
+    deviceId: string | null
+  ): boolean | MediaTrackConstraints | undefined => {
+    if (!track || !deviceId) return track;
+    const base = typeof track === "object" ? track : {};
+    return { ...base, deviceId: { ideal: deviceId } };
+  };
+  return {
+    ...constraints,
+    video: apply(constraints.video, selection.videoDeviceId),
+    audio: apply(constraints.audio, selection.audioDeviceId),
+  };
+}
@@ -0,0 +1,7 @@
+// Unique IDs for takes and persisted sessions; randomUUID is missing on non-secure origins in some browsers.
+export function createId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -1,3 +1,7 @@
 export { RecorderProvider, useRecorder } from "./context";
 export { default as VideoRecorder } from "./VideoRecorder";
 export { default as RecorderDashboard } from "./RecorderDashboard";
+export { default as DevicePicker } from "./DevicePicker";
+export { default as RecoveryPrompt } from "./RecoveryPrompt";
+export { default as TakesLibrary } from "./TakesLibrary";
+export { default as AudioLevelMeter } from "./AudioLevelMeter";
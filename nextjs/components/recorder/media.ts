@@ -1,5 +1,30 @@
 // Media-related helpers. Encapsulate browser differences and feature detection.
 
+// MediaRecorder container/codec preferences, best first.
+export const VIDEO_MIME_CANDIDATES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+export const AUDIO_MIME_CANDIDATES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/ogg",
+  "audio/mp4",
+];
+
+// File extension for a recorded MIME type (used for download names).
+export function extensionForMime(mime: string | null | undefined): string {
+  if (!mime) return "webm";
+  if (mime.startsWith("audio/mp4")) return "m4a";
+  if (mime.startsWith("audio/ogg")) return "ogg";
+  if (mime.includes("mp4")) return "mp4";
+  return "webm";
+}
+
 export function pickSupportedMimeType(candidates: string[]): string | null {
   if (typeof window === "undefined" || typeof window.MediaRecorder === "undefined") {
     return null;
@@ -18,14 +43,19 @@ export function pickSupportedMimeType(candidates: string[]): string | null {
   return null;
 }
 
-// Cross-browser, safe wrapper around getUserMedia with clear errors.
-export async function requestUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+// Shared preconditions for camera/microphone and screen capture.
+function assertMediaContext(api: "getUserMedia" | "getDisplayMedia") {
   if (typeof window === "undefined") {
-    throw new Error("getUserMedia cannot run on the server");
+    throw new Error(`${api} cannot run on the server`);
   }
   if (!window.isSecureContext && location.hostname !== "localhost") {
     throw new Error("MediaDevices API requires a secure context (HTTPS). Please use HTTPS or localhost.");
   }
+}
+
+// Cross-browser, safe wrapper around getUserMedia with clear errors.
+export async function requestUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+  assertMediaContext("getUserMedia");
 
   type LegacyGUM = (
     c: MediaStreamConstraints,
@@ -65,3 +95,25 @@ export async function requestUserMedia(constraints: MediaStreamConstraints): Pro
     "MediaDevices.getUserMedia is not supported in this browser. Please try a modern browser and ensure HTTPS or localhost."
   );
 }
+
+// Safe wrapper around getDisplayMedia (screen, window or tab capture) with clear errors.
+// Must be called from a user gesture (click), otherwise browsers reject it.
+export async function requestDisplayMedia(options: DisplayMediaStreamOptions = { video: true, audio: true }): Promise<MediaStream> {
+  assertMediaContext("getDisplayMedia");
+
+  const anyNavigator = navigator as unknown as {
+    mediaDevices?: { getDisplayMedia?: (o?: DisplayMediaStreamOptions) => Promise<MediaStream> };
+    getDisplayMedia?: (o?: DisplayMediaStreamOptions) => Promise<MediaStream>; // early Edge builds
+  };
+
+  if (anyNavigator.mediaDevices && typeof anyNavigator.mediaDevices.getDisplayMedia === "function") {
+    return anyNavigator.mediaDevices.getDisplayMedia(options);
+  }
+  if (typeof anyNavigator.getDisplayMedia === "function") {
+    return anyNavigator.getDisplayMedia.call(navigator, options);
+  }
+
+  throw new Error(
+    "Screen capture (getDisplayMedia) is not supported in this browser. Please use a desktop version of Chrome, Edge, Firefox or Safari over HTTPS or localhost."
+  );
+}
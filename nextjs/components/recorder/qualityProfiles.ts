@@ -0,0 +1,49 @@
+// Named recording quality presets: capture constraints for getUserMedia plus
+// MediaRecorder bitrates. Browsers treat width/height/frameRate as "ideal" hints,
+// so the negotiated values are read back from the tracks afterwards.
+
+export type QualityProfileId = "480p-low" | "720p" | "1080p-high";
+
+export interface QualityProfile {
+  id: QualityProfileId;
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+export const QUALITY_PROFILES: QualityProfile[] = [
+  { id: "480p-low", label: "480p (low)", width: 854, height: 480, frameRate: 24, videoBitsPerSecond: 1_000_000, audioBitsPerSecond: 64_000 },
+  { id: "720p", label: "720p", width: 1280, height: 720, frameRate: 30, videoBitsPerSecond: 2_500_000, audioBitsPerSecond: 128_000 },
+  { id: "1080p-high", label: "1080p (high)", width: 1920, height: 1080, frameRate: 30, videoBitsPerSecond: 6_000_000, audioBitsPerSecond: 192_000 },
+];
+
+export const DEFAULT_QUALITY_PROFILE_ID: QualityProfileId = "720p";
+
+export function getQualityProfile(id: QualityProfileId): QualityProfile {
+  return QUALITY_PROFILES.find((p) => p.id === id) ?? QUALITY_PROFILES.find((p) => p.id === DEFAULT_QUALITY_PROFILE_ID)!;
+}
+
+// Merge the profile's resolution/frame rate into the video constraints (explicit caller values win).
+export function withQualityProfile(constraints: MediaStreamConstraints, profile: QualityProfile): MediaStreamConstraints {
+  if (!constraints.video) return constraints;
+  const base = typeof constraints.video === "object" ? constraints.video : {};
+  return {
+    ...constraints,
+    video: {
+      width: { ideal: profile.width },
+      height: { ideal: profile.height },
+      frameRate: { ideal: profile.frameRate },
+      ...base,
+    },
+  };
+}
+
+// MediaRecorder bitrate options; audio-only streams get only the audio bitrate.
+export function recorderBitrates(profile: QualityProfile, audioOnly: boolean): Pick<MediaRecorderOptions, "videoBitsPerSecond" | "audioBitsPerSecond"> {
+  return audioOnly
+    ? { audioBitsPerSecond: profile.audioBitsPerSecond }
+    : { videoBitsPerSecond: profile.videoBitsPerSecond, audioBitsPerSecond: profile.audioBitsPerSecond };
+}
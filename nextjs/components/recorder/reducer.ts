@@ -1,4 +1,5 @@
-import { RecorderState, RecordingStatus } from "./types";
+import { DEFAULT_QUALITY_PROFILE_ID, QualityProfileId } from "./qualityProfiles";
+import { AudioWarning, AutoStopReason, CaptureSource, DeviceSelection, MediaDeviceOption, NegotiatedSettings, RecorderState, RecordingStatus, RecoverableSession, SessionWarning, Take } from "./types";
 
 // Actions for the reducer kept local to the store implementation
 export type Action =
@@ -7,9 +8,26 @@ export type Action =
   | { type: "SET_RECORDER"; recorder: MediaRecorder | null; mimeType: string | null }
   | { type: "SET_STATUS"; status: RecordingStatus }
   | { type: "PUSH_CHUNK"; chunk: Blob }
+  | { type: "SET_COUNTDOWN"; remaining: number | null }
+  | { type: "AUTO_STOP"; reason: AutoStopReason }
+  | { type: "SET_AUDIO_WARNING"; warning: AudioWarning | null }
+  | { type: "SET_SESSION_WARNING"; warning: SessionWarning | null }
+  | { type: "SET_QUALITY_PROFILE"; id: QualityProfileId }
+  | { type: "SET_NEGOTIATED"; settings: NegotiatedSettings | null }
   | { type: "CLEAR_CHUNKS" }
-  | { type: "SET_BLOB"; blob: Blob | null }
-  | { type: "SET_OBJECT_URL"; url: string | null };
+  | { type: "ADD_TAKE"; take: Take }
+  | { type: "SELECT_TAKE"; id: string | null }
+  | { type: "RENAME_TAKE"; id: string; name: string }
+  | { type: "REMOVE_TAKE"; id: string }
+  | { type: "SET_TAKE_THUMBNAIL"; id: string; url: string }
+  | { type: "CLEAR_TAKES" }
+  | { type: "TIMER_START"; at: number }
+  | { type: "TIMER_PAUSE"; at: number }
+  | { type: "TIMER_RESUME"; at: number }
+  | { type: "SET_DEVICES"; videoInputs: MediaDeviceOption[]; audioInputs: MediaDeviceOption[] }
+  | { type: "SELECT_DEVICES"; selection: DeviceSelection }
+  | { type: "SET_CAPTURE_SOURCE"; source: CaptureSource }
+  | { type: "SET_RECOVERABLE"; sessions: RecoverableSession[] };
 
 export const initialState: RecorderState = {
   status: "idle",
@@ -19,8 +37,35 @@ export const initialState: RecorderState = {
   blob: null,
   objectUrl: null,
   mimeType: null,
+  elapsedMs: 0,
+  segmentStartedAt: null,
+  videoInputs: [],
+  audioInputs: [],
+  selectedDevices: { videoDeviceId: null, audioDeviceId: null },
+  captureSource: "camera",
+  recoverableSessions: [],
+  takes: [],
+  selectedTakeId: null,
+  recordedBytes: 0,
+  countdownRemaining: null,
+  autoStopReason: null,
+  audioWarning: null,
+  sessionWarning: null,
+  qualityProfileId: DEFAULT_QUALITY_PROFILE_ID,
+  negotiated: null,
 };
 
+// Keep blob/objectUrl in sync with the selected take so single-take consumers keep working
+function withSelection(state: RecorderState, id: string | null): RecorderState {
+  const take = id ? state.takes.find((t) => t.id === id) : undefined;
+  return {
+    ...state,
+    selectedTakeId: take?.id ?? null,
+    blob: take?.blob ?? null,
+    objectUrl: take?.objectUrl ?? null,
+  };
+}
+
 export function reducer(state: RecorderState, action: Action): RecorderState {
   switch (action.type) {
     case "SET_ERROR":
@@ -32,14 +77,72 @@ export function reducer(state: RecorderState, action: Action): RecorderState {
     case "SET_STATUS":
       return { ...state, status: action.status };
     case "PUSH_CHUNK":
-      return { ...state, chunks: [...state.chunks, action.chunk] };
+      return { ...state, chunks: [...state.chunks, action.chunk], recordedBytes: state.recordedBytes + action.chunk.size };
     case "CLEAR_CHUNKS":
-      return { ...state, chunks: [] };
-    case "SET_BLOB":
-      return { ...state, blob: action.blob };
-    case "SET_OBJECT_URL":
-      return { ...state, objectUrl: action.url };
+      return { ...state, chunks: [], recordedBytes: 0 };
+    case "SET_COUNTDOWN":
+      return { ...state, countdownRemaining: action.remaining };
+    case "AUTO_STOP":
+      return { ...state, autoStopReason: action.reason };
+    case "SET_QUALITY_PROFILE":
+      return { ...state, qualityProfileId: action.id };
+    case "SET_NEGOTIATED":
+      return { ...state, negotiated: action.settings };
+    case "SET_AUDIO_WARNING":
+      if (state.audioWarning === action.warning) return state;
+      return { ...state, audioWarning: action.warning };
+    case "SET_SESSION_WARNING":
+      if (state.sessionWarning === action.warning) return state;
+      return { ...state, sessionWarning: action.warning };
+    case "ADD_TAKE":
+      return withSelection({ ...state, takes: [...state.takes, action.take] }, action.take.id);
+    case "SELECT_TAKE":
+      return withSelection(state, action.id);
+    case "RENAME_TAKE":
+      return {
+        ...state,
+        takes: state.takes.map((t) => (t.id === action.id ? { ...t, name: action.name } : t)),
+      };
+    case "REMOVE_TAKE": {
+      const takes = state.takes.filter((t) => t.id !== action.id);
+      const selected = state.selectedTakeId === action.id ? takes[takes.length - 1]?.id ?? null : state.selectedTakeId;
+      return withSelection({ ...state, takes }, selected);
+    }
+    case "SET_TAKE_THUMBNAIL":
+      return {
+        ...state,
+        takes: state.takes.map((t) => (t.id === action.id ? { ...t, thumbnailUrl: action.url } : t)),
+      };
+    case "CLEAR_TAKES":
+      return withSelection({ ...state, takes: [] }, null);
+    case "TIMER_START":
+      return { ...state, elapsedMs: 0, segmentStartedAt: action.at, autoStopReason: null };
+    case "TIMER_PAUSE":
+      // Also used on stop: fold the running segment into the total and freeze it
+      if (state.segmentStartedAt === null) return state;
+      return {
+        ...state,
+        elapsedMs: state.elapsedMs + Math.max(0, action.at - state.segmentStartedAt),
+        segmentStartedAt: null,
+      };
+    case "TIMER_RESUME":
+      if (state.segmentStartedAt !== null) return state;
+      return { ...state, segmentStartedAt: action.at };
+    case "SET_DEVICES":
+      return { ...state, videoInputs: action.videoInputs, audioInputs: action.audioInputs };
+    case "SELECT_DEVICES":
+      return { ...state, selectedDevices: action.selection };
+    case "SET_CAPTURE_SOURCE":
+      return { ...state, captureSource: action.source };
+    case "SET_RECOVERABLE":
+      return { ...state, recoverableSessions: action.sessions };
     default:
       return state;
   }
 }
+
+// Elapsed recording time at `now`, excluding paused intervals
+export function getElapsedMs(state: Pick<RecorderState, "elapsedMs" | "segmentStartedAt">, now = Date.now()): number {
+  if (state.segmentStartedAt === null) return state.elapsedMs;
+  return state.elapsedMs + Math.max(0, now - state.segmentStartedAt);
+}
@@ -0,0 +1,141 @@
+// IndexedDB-backed store for in-progress recordings.
+// Every timesliced chunk is appended as it arrives, so a tab crash or reload
+// leaves a recoverable session behind. A session is deleted once its take has
+// been published normally (recorder.onstop), so anything left here is "unfinished".
+
+import type { RecoverableSession } from "./types";
+
+const DB_NAME = "recorder-sessions";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const CHUNKS = "chunks";
+
+interface SessionRecord {
+  id: string;
+  mimeType: string;
+  createdAt: number;
+}
+
+interface ChunkRecord {
+  sessionId: string;
+  seq: number;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isSessionStoreAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!isSessionStoreAvailable()) {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        const chunks = db.createObjectStore(CHUNKS, { keyPath: ["sessionId", "seq"] });
+        chunks.createIndex("bySession", "sessionId");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Failed to open recorder session database"));
+  });
+  // Allow a retry after a failed open (e.g. blocked by another tab)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+  });
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+export async function createSession(id: string, mimeType: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const record: SessionRecord = { id, mimeType, createdAt: Date.now() };
+  tx.objectStore(SESSIONS).put(record);
+  await done(tx);
+}
+
+export async function appendChunk(sessionId: string, seq: number, data: Blob): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(CHUNKS, "readwrite");
+  const record: ChunkRecord = { sessionId, seq, data };
+  tx.objectStore(CHUNKS).put(record);
+  await done(tx);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(CHUNKS).delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+  await done(tx);
+}
+
+async function readChunks(db: IDBDatabase, id: string): Promise<ChunkRecord[]> {
+  const tx = db.transaction(CHUNKS, "readonly");
+  // Compound key [sessionId, seq] keeps chunks of one session in recording order
+  const rows = await request(tx.objectStore(CHUNKS).getAll(IDBKeyRange.bound([id, -Infinity], [id, Infinity])));
+  return rows as ChunkRecord[];
+}
+
+// A session with no chunks yet may still be recording (first timeslice pending, or another tab);
+// past this age it is a take that never got any data and is deleted
+const EMPTY_SESSION_MAX_AGE_MS = 60 * 60 * 1000;
+
+// Sessions without chunks have nothing to recover and are left out
+export async function listUnfinishedSessions(): Promise<RecoverableSession[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readonly");
+  const sessions = (await request(tx.objectStore(SESSIONS).getAll())) as SessionRecord[];
+  const result: RecoverableSession[] = [];
+  for (const s of sessions) {
+    const chunks = await readChunks(db, s.id);
+    if (chunks.length === 0) {
+      if (Date.now() - s.createdAt > EMPTY_SESSION_MAX_AGE_MS) await deleteSession(s.id);
+      continue;
+    }
+    result.push({
+      id: s.id,
+      mimeType: s.mimeType,
+      createdAt: s.createdAt,
+      chunkCount: chunks.length,
+      size: chunks.reduce((sum, c) => sum + c.data.size, 0),
+    });
+  }
+  return result.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function loadSessionBlob(id: string): Promise<Blob> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readonly");
+  const session = (await request(tx.objectStore(SESSIONS).get(id))) as SessionRecord | undefined;
+  if (!session) throw new Error("Recording session not found");
+  const chunks = await readChunks(db, id);
+  if (chunks.length === 0) throw new Error("Recording session has no data to recover");
+  return new Blob(chunks.map((c) => c.data), { type: session.mimeType || "video/webm" });
+}
+
@@ -0,0 +1,45 @@
+// Grab a small poster frame from a recorded Blob using an offscreen <video> and <canvas>.
+// Resolves null instead of throwing: a take without a thumbnail is still a valid take.
+
+export async function captureThumbnail(blob: Blob, width = 160, atSec = 0.1, timeoutMs = 5000): Promise<Blob | null> {
+  if (typeof document === "undefined") return null;
+
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    return await new Promise<Blob | null>((resolve) => {
+      const timer = window.setTimeout(() => resolve(null), timeoutMs);
+      const finish = (result: Blob | null) => {
+        window.clearTimeout(timer);
+        resolve(result);
+      };
+
+      video.onerror = () => finish(null);
+      video.onloadeddata = () => {
+        // MediaRecorder WebM often reports Infinity duration; a small absolute seek still works
+        video.currentTime = atSec;
+      };
+      video.onseeked = () => {
+        const w = video.videoWidth;
+        const h = video.videoHeight;
+        if (!w || !h) return finish(null); // audio-only take
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = Math.round((width * h) / w);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return finish(null);
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob((b) => finish(b), "image/jpeg", 0.7);
+      };
+      video.src = url;
+    });
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -1,28 +1,133 @@
 // Shared types for the recorder components
 // Keep this file minimal and focused on type declarations only.
 
+import type { QualityProfileId } from "./qualityProfiles";
+
 export type RecordingStatus =
   | "idle" // Not initialized yet; no stream or recorder
   | "ready" // Stream initialized; preview available; recorder ready
   | "recording" // Actively recording
+  | "paused" // Recording is paused; resume() continues the same take
   | "stopped" // Recording stopped; blob is available
   | "error"; // Some error occurred; see errorMessage
 
+export interface MediaDeviceOption {
+  deviceId: string;
+  groupId: string;
+  kind: "videoinput" | "audioinput";
+  label: string; // Human-readable label (falls back to "Camera 1" etc. before permission is granted)
+}
+
+export interface DeviceSelection {
+  videoDeviceId: string | null; // null = browser default
+  audioDeviceId: string | null;
+}
+
+export type CaptureSource = "camera" | "screen" | "audio"; // "audio" = microphone only
+
+export interface CameraOverlayOptions {
+  corner?: "top-left" | "top-right" | "bottom-left" | "bottom-right"; // default bottom-right
+  widthRatio?: number; // Overlay width relative to the screen width, default 0.22
+  marginRatio?: number; // Gap to the edges relative to the screen width, default 0.02
+  fps?: number; // Canvas redraw rate, default 30
+}
+
+export interface CaptureOptions {
+  source?: CaptureSource; // default "camera"
+  microphone?: boolean; // Screen mode: mix in microphone audio, default true (audio mode always uses it)
+  cameraOverlay?: boolean | CameraOverlayOptions; // Screen mode: webcam picture-in-picture
+}
+
+export interface RecoverableSession {
+  id: string;
+  mimeType: string;
+  createdAt: number; // epoch ms when recording started
+  chunkCount: number;
+  size: number; // bytes persisted so far
+}
+
+export interface Take {
+  id: string;
+  name: string; // User-editable label, also used for the download filename
+  createdAt: number; // epoch ms when the take was published
+  durationMs: number | null; // Recorded time without pauses; null when unknown (recovered session)
+  mimeType: string;
+  size: number; // bytes
+  blob: Blob;
+  objectUrl: string; // Owned by RecorderProvider; revoked on delete/cleanup/unmount
+  thumbnailUrl: string | null; // Poster frame (JPEG object URL), filled in asynchronously
+}
+
+export interface RecordingLimits {
+  maxDurationSec?: number; // Auto-stop after this much recorded time (pauses excluded)
+  maxBytes?: number; // Auto-stop before the take grows past this size
+  countdownSec?: number; // Pre-roll countdown before recording actually starts; 0 = none
+}
+
+export type AutoStopReason = "maxDuration" | "maxBytes" | "screenShareEnded";
+
+export type AudioWarning = "noAudioTrack" | "silent";
+
+// Crash-recovery storage problems; recording itself carries on
+export type SessionWarning = "persistFailed" | "listFailed";
+
+// What the browser actually negotiated for the current stream/recorder
+export interface NegotiatedSettings {
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channelCount?: number;
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+}
+
 export interface RecorderState {
   status: RecordingStatus;
   errorMessage?: string;
   stream: MediaStream | null; // Current camera+mic stream for preview and recorder
   recorder: MediaRecorder | null; // Current MediaRecorder instance
   chunks: Blob[]; // Accumulated chunks while recording
-  blob: Blob | null; // Final blob after stop
-  objectUrl: string | null; // Object URL created from blob for download/playback
+  blob: Blob | null; // Blob of the selected take (mirrors takes[selectedTakeId])
+  objectUrl: string | null; // Object URL of the selected take for download/playback
   mimeType: string | null; // Selected mimeType used for MediaRecorder
+  elapsedMs: number; // Recorded time accumulated before the current running segment (paused intervals excluded)
+  segmentStartedAt: number | null; // Date.now() when the current running segment began; null while not recording
+  videoInputs: MediaDeviceOption[]; // Available cameras (refreshed on devicechange)
+  audioInputs: MediaDeviceOption[]; // Available microphones
+  selectedDevices: DeviceSelection; // Persisted device choice applied to getUserMedia
+  captureSource: CaptureSource; // What the current stream captures
+  recoverableSessions: RecoverableSession[]; // Unfinished takes left in IndexedDB by a crash/reload
+  takes: Take[]; // All takes of this session, oldest first
+  selectedTakeId: string | null;
+  recordedBytes: number; // Bytes received for the current take so far
+  countdownRemaining: number | null; // Seconds left in the pre-roll countdown; null when not counting down
+  autoStopReason: AutoStopReason | null; // Why the last take was stopped automatically, if it was
+  audioWarning: AudioWarning | null; // Set when the stream has no audio or the mic stayed silent too long
+  sessionWarning: SessionWarning | null; // Set when takes can't be saved to or listed from IndexedDB
+  qualityProfileId: QualityProfileId; // Requested quality preset
+  negotiated: NegotiatedSettings | null; // Actual track settings/bitrates after the stream was acquired
 }
 
 export interface RecorderApi extends RecorderState {
-  init: (constraints?: MediaStreamConstraints) => Promise<void>;
-  start: () => void;
-  stop: () => void;
+  limits: RecordingLimits;
+  // In screen mode call init() from a click handler: getDisplayMedia requires a user gesture
+  init: (constraints?: MediaStreamConstraints, options?: CaptureOptions) => Promise<void>;
+  start: () => void; // Runs the countdown first when limits.countdownSec > 0
+  stop: () => void; // Also cancels a running countdown
+  pause: () => void;
+  resume: () => void;
+  refreshDevices: () => Promise<void>;
+  // Switch input device; re-acquires the camera stream when ready/stopped, otherwise just remembers the choice
+  selectDevices: (selection: Partial<DeviceSelection>) => Promise<void>;
+  // Change the quality preset; re-acquires the stream when ready/stopped (screen mode: bitrates only)
+  setQualityProfile: (id: QualityProfileId) => Promise<void>;
+  // Restore an unfinished session as the current blob (same path as a normal stop)
+  recoverSession: (id: string) => Promise<void>;
+  discardSession: (id: string) => Promise<void>;
+  selectTake: (id: string | null) => void;
+  renameTake: (id: string, name: string) => void;
+  deleteTake: (id: string) => void;
   reset: () => void;
   cleanup: () => void;
 }
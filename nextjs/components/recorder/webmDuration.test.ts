@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { fixWebmDuration } from "./webmDuration";
+
+// Minimal EBML writer for building MediaRecorder-like files
+function el(id: number[], ...children: Uint8Array[]): Uint8Array {
+  const size = children.reduce((sum, c) => sum + c.length, 0);
+  return bytes(id, [0x01, 0, 0, 0, 0, 0, 0, size], ...children); // 8-byte size VINT
+}
+function unknownSize(id: number[], ...children: Uint8Array[]): Uint8Array {
+  return bytes(id, [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], ...children);
+}
+function bytes(...parts: (number[] | Uint8Array)[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let p = 0;
+  for (const part of parts) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out;
+}
+const uint = (id: number[], value: number) => el(id, new Uint8Array([value]));
+
+const EBML = el([0x1a, 0x45, 0xdf, 0xa3], el([0x42, 0x82], new TextEncoder().encode("webm")));
+const INFO = el([0x15, 0x49, 0xa9, 0x66], el([0x2a, 0xd7, 0xb1], new Uint8Array([0x0f, 0x42, 0x40]))); // TimecodeScale 1ms
+const TRACKS = el([0x16, 0x54, 0xae, 0x6b],
+  el([0xae], uint([0xd7], 1), uint([0x83], 2)), // audio
+  el([0xae], uint([0xd7], 2), uint([0x83], 1)), // video
+);
+const block = (track: number, keyframe: boolean) => el([0xa3], new Uint8Array([0x80 | track, 0, 0, keyframe ? 0x80 : 0, 1, 2, 3]));
+const cluster = (time: number, keyframe: boolean) => unknownSize([0x1f, 0x43, 0xb6, 0x75], uint([0xe7], time), block(1, true), block(2, keyframe));
+
+function webm(...clusters: Uint8Array[]): Blob {
+  return new Blob([EBML, unknownSize([0x18, 0x53, 0x80, 0x67], INFO, TRACKS, ...clusters)] as BlobPart[], { type: "video/webm" });
+}
+
+// Reads an element header at `pos`: [id, dataStart, size]
+function header(buf: Uint8Array, pos: number): [number, number, number] {
+  let len = 1;
+  while (!(buf[pos] & (0x80 >> (len - 1)))) len++;
+  let id = 0;
+  for (let i = 0; i < len; i++) id = id * 256 + buf[pos + i];
+  const sizePos = pos + len;
+  let sizeLen = 1;
+  while (!(buf[sizePos] & (0x80 >> (sizeLen - 1)))) sizeLen++;
+  let size = buf[sizePos] & ((0x80 >> (sizeLen - 1)) - 1);
+  for (let i = 1; i < sizeLen; i++) size = size * 256 + buf[sizePos + i];
+  return [id, sizePos + sizeLen, size];
+}
+function readUint(buf: Uint8Array, pos: number, size: number): number {
+  let v = 0;
+  for (let i = 0; i < size; i++) v = v * 256 + buf[pos + i];
+  return v;
+}
+type Header = [id: number, dataStart: number, size: number];
+
+// Elements inside the data of `parent`
+function children(buf: Uint8Array, parent: Header): Header[] {
+  const out: Header[] = [];
+  for (let p = parent[1]; p < parent[1] + parent[2]; ) {
+    const h = header(buf, p);
+    out.push(h);
+    p = h[1] + h[2];
+  }
+  return out;
+}
+function child(buf: Uint8Array, parent: Header, id: number): Header {
+  const found = children(buf, parent).find(([childId]) => childId === id);
+  if (!found) throw new Error(`no element ${id.toString(16)}`);
+  return found;
+}
+const value = (buf: Uint8Array, h: Header) => readUint(buf, h[1], h[2]);
+
+describe("fixWebmDuration", () => {
+  it("adds the duration, a Cues index and a SeekHead pointing at it", async () => {
+    const original = webm(cluster(0, true), cluster(100, false), cluster(200, true));
+    const fixed = new Uint8Array(await (await fixWebmDuration(original, 2500)).arrayBuffer());
+    const segment = header(fixed, EBML.length);
+    expect(segment[0]).toBe(0x18538067);
+    const segmentData = segment[1];
+    const top = children(fixed, [segment[0], segmentData, fixed.length - segmentData]);
+
+    // SeekHead first, then Info with the Duration
+    expect(top.map(([id]) => id).slice(0, 3)).toEqual([0x114d9b74, 0x1549a966, 0x1654ae6b]);
+    const duration = child(fixed, top[1], 0x4489);
+    expect(new DataView(fixed.buffer).getFloat64(duration[1])).toBe(2500);
+
+    const seek = child(fixed, top[0], 0x4dbb);
+    expect(value(fixed, child(fixed, seek, 0x53ab))).toBe(0x1c53bb6b);
+    const cuesPos = segmentData + value(fixed, child(fixed, seek, 0x53ac));
+    const cues = header(fixed, cuesPos);
+    expect(cues[0]).toBe(0x1c53bb6b);
+    expect(cues[1] + cues[2]).toBe(fixed.length);
+
+    // One cue per cluster that starts on a video keyframe, pointing at that cluster
+    const cued = children(fixed, cues).map((point) => {
+      const positions = child(fixed, point, 0xb7);
+      return {
+        time: value(fixed, child(fixed, point, 0xb3)),
+        track: value(fixed, child(fixed, positions, 0xf7)),
+        position: value(fixed, child(fixed, positions, 0xf1)),
+      };
+    });
+    expect(cued.map((c) => [c.time, c.track])).toEqual([[0, 2], [200, 2]]);
+    for (const c of cued) {
+      const [id, data] = header(fixed, segmentData + c.position);
+      expect(id).toBe(0x1f43b675);
+      expect(header(fixed, data)[0]).toBe(0xe7);
+    }
+  });
+
+  it("leaves files it can't parse and non-WebM blobs alone", async () => {
+    const junk = new Blob([new Uint8Array([1, 2, 3, 4])], { type: "video/webm" });
+    expect(await fixWebmDuration(junk, 1000)).toBe(junk);
+    const mp4 = new Blob([new Uint8Array(16)], { type: "video/mp4" });
+    expect(await fixWebmDuration(mp4, 1000)).toBe(mp4);
+    const file = webm(cluster(0, true));
+    expect(await fixWebmDuration(file, 0)).toBe(file);
+  });
+});
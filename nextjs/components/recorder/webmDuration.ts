@@ -0,0 +1,405 @@
+// Repair MediaRecorder WebM output so players know its duration and can seek.
+// Chrome writes the Segment Info without a Duration element and no Cues index (it
+// streams the file and never goes back), which breaks seeking in many players and
+// makes ffmpeg's -ss slow. We rewrite only the head of the file: add (or overwrite)
+// Info/Duration and shift SeekHead positions if present. Files without a SeekHead
+// also get a Cues index (one point per cluster starting on a keyframe) appended to
+// the Segment and a SeekHead pointing at it; the clusters are reused untouched.
+
+const ID_EBML = 0x1a45dfa3;
+const ID_SEGMENT = 0x18538067;
+const ID_SEEK_HEAD = 0x114d9b74;
+const ID_SEEK = 0x4dbb;
+const ID_SEEK_ID = 0x53ab;
+const ID_SEEK_POSITION = 0x53ac;
+const ID_INFO = 0x1549a966;
+const ID_TIMECODE_SCALE = 0x2ad7b1;
+const ID_DURATION = 0x4489;
+const ID_CLUSTER = 0x1f43b675;
+const ID_CLUSTER_TIMECODE = 0xe7;
+const ID_SIMPLE_BLOCK = 0xa3;
+const ID_CUES = 0x1c53bb6b;
+const ID_CUE_POINT = 0xbb;
+const ID_CUE_TIME = 0xb3;
+const ID_CUE_TRACK_POSITIONS = 0xb7;
+const ID_CUE_TRACK = 0xf7;
+const ID_CUE_CLUSTER_POSITION = 0xf1;
+const ID_TRACKS = 0x1654ae6b;
+const ID_TRACK_ENTRY = 0xae;
+const ID_TRACK_NUMBER = 0xd7;
+const ID_TRACK_TYPE = 0x83;
+const TRACK_TYPE_VIDEO = 1;
+
+// Elements that end a Cluster written with unknown size
+const TOP_LEVEL_IDS = new Set([ID_CLUSTER, ID_CUES, ID_SEEK_HEAD, ID_INFO, ID_TRACKS, 0x1254c367, 0x1043a770, 0x1941a469]);
+
+// Info sits right after the EBML header and an optional SeekHead; this is plenty.
+const HEAD_BYTES = 256 * 1024;
+// The clusters are scanned through a window of this size rather than read whole
+const SCAN_WINDOW_BYTES = 1024 * 1024;
+
+interface Vint {
+  value: number;
+  length: number;
+  unknown: boolean; // all value bits set = "unknown size" (live streams)
+}
+
+interface Element {
+  id: number;
+  start: number;
+  sizePos: number;
+  sizeLength: number;
+  dataStart: number;
+  size: number | null; // null = unknown size
+}
+
+function readVint(buf: Uint8Array, pos: number, keepMarker: boolean): Vint | null {
+  const first = buf[pos];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  let mask = 0x80;
+  while (!(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (pos + length > buf.length) return null;
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[pos + i];
+    if (buf[pos + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readElement(buf: Uint8Array, pos: number): Element | null {
+  const id = readVint(buf, pos, true);
+  if (!id || id.length > 4) return null;
+  const size = readVint(buf, pos + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    start: pos,
+    sizePos: pos + id.length,
+    sizeLength: size.length,
+    dataStart: pos + id.length + size.length,
+    size: size.unknown ? null : size.value,
+  };
+}
+
+// Encode a size VINT of exactly `length` bytes; null when the value does not fit.
+function writeVint(value: number, length: number): Uint8Array | null {
+  if (value > Math.pow(2, 7 * length) - 2) return null; // all-ones is reserved for "unknown"
+  const out = new Uint8Array(length);
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+function readUint(buf: Uint8Array, pos: number, length: number): number {
+  let v = 0;
+  for (let i = 0; i < length; i++) v = v * 256 + buf[pos + i];
+  return v;
+}
+
+function writeUint(buf: Uint8Array, pos: number, length: number, value: number): boolean {
+  if (value >= Math.pow(2, 8 * length)) return false;
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    buf[pos + i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  return true;
+}
+
+// Shift SeekPosition entries that point past Info. Returns false when it can't be done safely.
+function patchSeekHead(buf: Uint8Array, seekHead: Element, infoOffset: number, delta: number): boolean {
+  const end = seekHead.dataStart + (seekHead.size ?? 0);
+  for (let p = seekHead.dataStart; p < end; ) {
+    const seek = readElement(buf, p);
+    if (!seek || seek.size === null) return false;
+    if (seek.id === ID_SEEK) {
+      let target = 0;
+      let position: Element | null = null;
+      for (let q = seek.dataStart; q < seek.dataStart + seek.size; ) {
+        const child = readElement(buf, q);
+        if (!child || child.size === null) return false;
+        if (child.id === ID_SEEK_ID) target = readUint(buf, child.dataStart, child.size);
+        if (child.id === ID_SEEK_POSITION) position = child;
+        q = child.dataStart + child.size;
+      }
+      // Cues hold cluster offsets too; rewriting those is out of scope, so leave such files alone
+      if (target === ID_CUES) return false;
+      if (position && position.size !== null) {
+        const value = readUint(buf, position.dataStart, position.size);
+        if (value > infoOffset && !writeUint(buf, position.dataStart, position.size, value + delta)) return false;
+      }
+    }
+    p = seek.dataStart + seek.size;
+  }
+  return true;
+}
+
+interface PatchedHead {
+  head: Uint8Array;
+  consumed: number; // bytes of the original file the head replaces
+  segment: Element; // as found in the original; its data starts at the same offset in `head`
+  hasSeekHead: boolean;
+}
+
+// Returns the rewritten head, or null to keep the file as is.
+function patchHead(head: Uint8Array, durationMs: number): PatchedHead | null {
+  const ebml = readElement(head, 0);
+  if (!ebml || ebml.id !== ID_EBML || ebml.size === null) return null;
+  const segment = readElement(head, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== ID_SEGMENT) return null;
+
+  let seekHead: Element | null = null;
+  let info: Element | null = null;
+  for (let p = segment.dataStart; p < head.length; ) {
+    const el = readElement(head, p);
+    if (!el || el.size === null || el.id === ID_CLUSTER) return null;
+    if (el.id === ID_SEEK_HEAD) seekHead = el;
+    if (el.id === ID_INFO) {
+      info = el;
+      break;
+    }
+    p = el.dataStart + el.size;
+  }
+  if (!info || info.size === null) return null;
+  const infoEnd = info.dataStart + info.size;
+  if (infoEnd > head.length) return null;
+
+  let timecodeScale = 1_000_000;
+  let duration: Element | null = null;
+  for (let p = info.dataStart; p < infoEnd; ) {
+    const el = readElement(head, p);
+    if (!el || el.size === null) return null;
+    if (el.id === ID_TIMECODE_SCALE) timecodeScale = readUint(head, el.dataStart, el.size) || timecodeScale;
+    if (el.id === ID_DURATION) duration = el;
+    p = el.dataStart + el.size;
+  }
+  // Duration is a float in TimecodeScale units (ns per tick, 1ms by default)
+  const value = (durationMs * 1_000_000) / timecodeScale;
+
+  const out = head.slice(0, infoEnd);
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+
+  if (duration) {
+    if (duration.size === 8) view.setFloat64(duration.dataStart, value);
+    else if (duration.size === 4) view.setFloat32(duration.dataStart, value);
+    else return null;
+    return { head: out, consumed: infoEnd, segment, hasSeekHead: seekHead !== null };
+  }
+
+  // No Duration yet: append a float64 Duration element to Info.
+  const durationEl = new Uint8Array(11);
+  durationEl.set([0x44, 0x89, 0x88]); // ID 0x4489, size 8
+  new DataView(durationEl.buffer).setFloat64(3, value);
+
+  let infoSize: Uint8Array | null = null;
+  for (let len = info.sizeLength; len <= 8 && !infoSize; len++) {
+    infoSize = writeVint(info.size + durationEl.length, len);
+  }
+  if (!infoSize) return null;
+  const delta = durationEl.length + infoSize.length - info.sizeLength;
+
+  if (segment.size !== null) {
+    const segmentSize = writeVint(segment.size + delta, segment.sizeLength);
+    if (!segmentSize) return null;
+    out.set(segmentSize, segment.sizePos);
+  }
+  if (seekHead && !patchSeekHead(out, seekHead, info.start - segment.dataStart, delta)) return null;
+
+  const result = new Uint8Array(out.length + delta);
+  result.set(out.subarray(0, info.sizePos), 0);
+  result.set(infoSize, info.sizePos);
+  result.set(out.subarray(info.dataStart, infoEnd), info.sizePos + infoSize.length);
+  result.set(durationEl, result.length - durationEl.length);
+  return { head: result, consumed: infoEnd, segment, hasSeekHead: seekHead !== null };
+}
+
+type ReadAt = (pos: number, length: number) => Promise<Uint8Array>;
+
+// Random access to a Blob through one cached window; reads may come back short at the end
+function blobReader(blob: Blob): ReadAt {
+  let window = new Uint8Array(0);
+  let windowStart = 0;
+  return async (pos, length) => {
+    const end = windowStart + window.length;
+    if (pos < windowStart || pos >= end || (pos + length > end && end < blob.size)) {
+      windowStart = pos;
+      window = new Uint8Array(await blob.slice(pos, Math.min(blob.size, pos + Math.max(length, SCAN_WINDOW_BYTES))).arrayBuffer());
+    }
+    return window.subarray(pos - windowStart, pos - windowStart + length);
+  };
+}
+
+async function elementAt(read: ReadAt, pos: number): Promise<Element | null> {
+  const el = readElement(await read(pos, 12), 0);
+  return el && { ...el, start: pos, sizePos: pos + el.sizePos, dataStart: pos + el.dataStart };
+}
+
+// Track to index: the first video track, else (audio-only) the first track
+function cueTrackOf(tracks: Uint8Array): number | null {
+  let first: number | null = null;
+  for (let p = 0; p < tracks.length; ) {
+    const entry = readElement(tracks, p);
+    if (!entry || entry.size === null) return first;
+    if (entry.id === ID_TRACK_ENTRY) {
+      let number: number | null = null;
+      let type = 0;
+      for (let q = entry.dataStart; q < entry.dataStart + entry.size; ) {
+        const child = readElement(tracks, q);
+        if (!child || child.size === null) break;
+        if (child.id === ID_TRACK_NUMBER) number = readUint(tracks, child.dataStart, child.size);
+        if (child.id === ID_TRACK_TYPE) type = readUint(tracks, child.dataStart, child.size);
+        q = child.dataStart + child.size;
+      }
+      if (number !== null && type === TRACK_TYPE_VIDEO) return number;
+      first ??= number;
+    }
+    p = entry.dataStart + entry.size;
+  }
+  return first;
+}
+
+interface ClusterStart {
+  position: number; // in the original file
+  time: number; // Cluster Timecode, in TimecodeScale units
+}
+
+// Walk the top-level elements after Info and collect the clusters a player can start decoding at:
+// those whose first block on the cue track is a keyframe. Null when the file already has Cues or
+// can't be walked safely.
+async function scanClusters(read: ReadAt, from: number, end: number): Promise<{ track: number; clusters: ClusterStart[] } | null> {
+  let track: number | null = null;
+  const clusters: ClusterStart[] = [];
+  for (let p = from; p < end; ) {
+    const el = await elementAt(read, p);
+    // Already indexed, or a SeekHead whose positions the inserted one would shift
+    if (!el || el.id === ID_CUES || el.id === ID_SEEK_HEAD) return null;
+    if (el.id === ID_TRACKS) {
+      if (el.size === null) return null;
+      track = cueTrackOf(await read(el.dataStart, el.size));
+    }
+    if (el.id !== ID_CLUSTER) {
+      if (el.size === null) return null;
+      p = el.dataStart + el.size;
+      continue;
+    }
+    if (track === null) return null;
+
+    const clusterEnd = el.size === null ? end : el.dataStart + el.size;
+    let time: number | null = null;
+    let keyframe: boolean | null = null;
+    let q = el.dataStart;
+    while (q < clusterEnd) {
+      // A known-size cluster can be skipped as soon as both are found
+      if (el.size !== null && time !== null && keyframe !== null) break;
+      const child = await elementAt(read, q);
+      if (!child) return null;
+      if (el.size === null && TOP_LEVEL_IDS.has(child.id)) break;
+      if (child.size === null) return null;
+      if (child.id === ID_CLUSTER_TIMECODE) time = readUint(await read(child.dataStart, child.size), 0, child.size);
+      if (child.id === ID_SIMPLE_BLOCK && keyframe === null) {
+        // SimpleBlock: track number (VINT), 16-bit relative timecode, flags (0x80 = keyframe)
+        const block = await read(child.dataStart, 12);
+        const number = readVint(block, 0, false);
+        if (number && number.value === track) keyframe = (block[number.length + 2] & 0x80) !== 0;
+      }
+      q = child.dataStart + child.size;
+    }
+    if (time !== null && keyframe) clusters.push({ position: el.start, time });
+    p = el.size === null ? q : clusterEnd;
+  }
+  return track === null ? null : { track, clusters };
+}
+
+function uintBytes(value: number, length = 0): Uint8Array {
+  if (!length) for (length = 1; value >= Math.pow(2, 8 * length); length++);
+  const out = new Uint8Array(length);
+  writeUint(out, 0, length, value);
+  return out;
+}
+
+function ebmlElement(id: number, ...children: Uint8Array[]): Uint8Array {
+  const idBytes = uintBytes(id);
+  const size = children.reduce((sum, c) => sum + c.length, 0);
+  let sizeBytes: Uint8Array | null = null;
+  for (let len = 1; len <= 8 && !sizeBytes; len++) sizeBytes = writeVint(size, len);
+  const out = new Uint8Array(idBytes.length + sizeBytes!.length + size);
+  out.set(idBytes, 0);
+  out.set(sizeBytes!, idBytes.length);
+  let p = idBytes.length + sizeBytes!.length;
+  for (const c of children) {
+    out.set(c, p);
+    p += c.length;
+  }
+  return out;
+}
+
+// SeekHead with a single entry for Cues. The position is always 8 bytes wide so the SeekHead's
+// length, which shifts everything after it, doesn't depend on where the Cues end up.
+function cuesSeekHead(cuesPosition: number): Uint8Array {
+  return ebmlElement(ID_SEEK_HEAD, ebmlElement(ID_SEEK,
+    ebmlElement(ID_SEEK_ID, uintBytes(ID_CUES)),
+    ebmlElement(ID_SEEK_POSITION, uintBytes(cuesPosition, 8)),
+  ));
+}
+
+// `shift` maps original file offsets to Segment-relative offsets in the output
+function buildCues(track: number, clusters: ClusterStart[], shift: number): Uint8Array {
+  return ebmlElement(ID_CUES, ...clusters.map((c) => ebmlElement(ID_CUE_POINT,
+    ebmlElement(ID_CUE_TIME, uintBytes(c.time)),
+    ebmlElement(ID_CUE_TRACK_POSITIONS,
+      ebmlElement(ID_CUE_TRACK, uintBytes(track)),
+      ebmlElement(ID_CUE_CLUSTER_POSITION, uintBytes(c.position + shift)),
+    ),
+  )));
+}
+
+// Add Cues after the last cluster and a SeekHead at the start of the Segment pointing at them.
+// Returns the parts of the new file, or null when the file can't be indexed.
+async function withCues(blob: Blob, patched: PatchedHead): Promise<BlobPart[] | null> {
+  const { head, consumed, segment } = patched;
+  // Cues go at the end of the Segment, so it has to run to the end of the file
+  const segmentEnd = segment.size === null ? blob.size : segment.dataStart + segment.size;
+  if (segmentEnd !== blob.size) return null;
+  const scan = await scanClusters(blobReader(blob), consumed, blob.size);
+  if (!scan || scan.clusters.length === 0) return null;
+
+  const seekHeadLength = cuesSeekHead(0).length;
+  const shift = seekHeadLength + head.length - consumed - segment.dataStart;
+  const cues = buildCues(scan.track, scan.clusters, shift);
+  const seekHead = cuesSeekHead(blob.size + shift);
+
+  const out = head.slice();
+  if (segment.size !== null) {
+    const current = readElement(out, segment.start);
+    if (!current || current.size === null) return null;
+    const size = writeVint(current.size + seekHead.length + cues.length, current.sizeLength);
+    if (!size) return null;
+    out.set(size, current.sizePos);
+  }
+  return [out.subarray(0, segment.dataStart), seekHead, out.subarray(segment.dataStart), blob.slice(consumed), cues] as BlobPart[];
+}
+
+// Best effort: returns the original blob when the file is not a WebM we can patch.
+export async function fixWebmDuration(blob: Blob, durationMs: number): Promise<Blob> {
+  if (!(durationMs > 0) || !blob.type.includes("webm")) return blob;
+  try {
+    const head = new Uint8Array(await blob.slice(0, Math.min(blob.size, HEAD_BYTES)).arrayBuffer());
+    const patched = patchHead(head, durationMs);
+    if (!patched) return blob;
+    // Files with a SeekHead come from muxers that write their own index; only the Duration is added
+    const parts = patched.hasSeekHead ? null : await withCues(blob, patched);
+    return new Blob(parts ?? [patched.head as BlobPart, blob.slice(patched.consumed)], { type: blob.type });
+  } catch {
+    return blob;
+  }
+}
@@ -1,5 +1,5 @@
 import Image from "next/image";
-import { RecorderProvider, VideoRecorder, RecorderDashboard } from "../../components/recorder";
+import { RecorderProvider, VideoRecorder, RecorderDashboard, DevicePicker, RecoveryPrompt, TakesLibrary, AudioLevelMeter } from "../../components/recorder";
 import { FfmpegCacheManager } from "../../components/converter/front/cacheFfmpeg";
 import { FfmpegWorkerPanel } from "../../components/converter/front/worker";
 
@@ -22,8 +22,12 @@ export default function Home() {
         </div>
 
         <RecorderProvider>
+          <RecoveryPrompt />
           <VideoRecorder />
+          <AudioLevelMeter />
+          <DevicePicker />
           <RecorderDashboard />
+          <TakesLibrary />
 
           {/* Worker-based processing panel */}
           <div className="w-full max-w-2xl mt-4">